@@ -2,9 +2,20 @@ import { ChatWindow } from './components/ChatWindow';
 import { Controls } from './components/Controls';
 import { VoiceSelector } from './components/VoiceSelector';
 import { StatusIndicator } from './components/StatusIndicator';
+import { ToolProfileSelector } from './components/ToolProfileSelector';
+import { ServerHealth } from './components/ServerHealth';
+import { ToolUpdateBanner } from './components/ToolUpdateBanner';
+import { ResourceBrowser } from './components/ResourceBrowser';
+import { AuditLogPanel } from './components/AuditLogPanel';
 import { A2UIPanel } from './components/A2UIPanel';
 import { useGeminiLive } from './hooks/useGeminiLive';
 import { useA2UIAgent } from './hooks/useA2UIAgent';
+import {
+  APPROVE_TOOL_ACTION,
+  REJECT_TOOL_ACTION,
+  buildToolConfirmationSurface,
+  getConfirmationSurfaceId
+} from './utils/toolPolicy';
 import styles from './styles/App.module.css';
 
 function App() {
@@ -12,7 +23,9 @@ function App() {
     generateUI,
     surfaces,
     isGenerating,
-    error: a2uiError
+    error: a2uiError,
+    renderMessages,
+    removeSurface
   } = useA2UIAgent();
 
   const {
@@ -23,13 +36,45 @@ function App() {
     startConversation,
     endConversation,
     sendMessage,
-    setVoice
+    setVoice,
+    audioConfig,
+    updateAudioConfig,
+    isUserTalking,
+    setPushToTalk,
+    wakeWord,
+    setWakeWordEnrolling,
+    archivedMessages,
+    sessionLimit,
+    resolveToolConfirmation,
+    toolProfileId,
+    setToolProfile,
+    mcpServers,
+    mcpConnectionState,
+    pendingToolUpdate,
+    applyToolUpdate,
+    mcpResources,
+    mcpPrompts,
+    readMcpResource,
+    attachResource,
+    startPrompt
   } = useGeminiLive({
     onToolResponse: (toolName, toolData) => {
       generateUI(toolName, toolData);
+    },
+    onConfirmationRequested: (confirmation) => {
+      renderMessages(buildToolConfirmationSurface(confirmation));
+    },
+    onConfirmationResolved: (id) => {
+      removeSurface(getConfirmationSurfaceId(id));
     }
   });
 
+  const handleA2UIAction = (actionName: string, context: Record<string, unknown>) => {
+    if (actionName === APPROVE_TOOL_ACTION || actionName === REJECT_TOOL_ACTION) {
+      resolveToolConfirmation(String(context.confirmationId), actionName === APPROVE_TOOL_ACTION);
+    }
+  };
+
   return (
     <div className={styles.app}>
       <header className={styles.header}>
@@ -39,16 +84,38 @@ function App() {
 
       <main className={styles.main}>
         <div className={styles.topPanel}>
-          <StatusIndicator state={state} />
-          <VoiceSelector onVoiceChange={setVoice} />
+          <StatusIndicator state={state} sessionLimit={sessionLimit} mcpState={mcpConnectionState} wakeWord={wakeWord} />
+          <ServerHealth servers={mcpServers} />
+          <VoiceSelector
+            onVoiceChange={setVoice}
+            onLanguageChange={(languageCode) => updateAudioConfig({ languageCode })}
+            onInputModeChange={(inputMode) => updateAudioConfig({ inputMode })}
+            onAffectiveDialogChange={(enableAffectiveDialog) => updateAudioConfig({ enableAffectiveDialog })}
+          />
+          <ToolProfileSelector profileId={toolProfileId} onProfileChange={setToolProfile} />
         </div>
 
+        <ToolUpdateBanner diff={pendingToolUpdate} onRestart={applyToolUpdate} />
+
         <div className={styles.splitView}>
           <div className={styles.chatPanel}>
             <div className={styles.chatContainer}>
-              <ChatWindow messages={messages} />
+              <ChatWindow
+                messages={messages}
+                archivedMessages={archivedMessages}
+                onConfirmTool={resolveToolConfirmation}
+              />
             </div>
 
+            <ResourceBrowser
+              resources={mcpResources}
+              prompts={mcpPrompts}
+              isConnected={isConnected}
+              onReadResource={readMcpResource}
+              onAttachResource={attachResource}
+              onStartPrompt={startPrompt}
+            />
+
             <div className={styles.controlsContainer}>
               <Controls
                 state={state}
@@ -56,6 +123,11 @@ function App() {
                 onStartConversation={startConversation}
                 onEndConversation={endConversation}
                 onSendMessage={sendMessage}
+                inputMode={audioConfig.inputMode}
+                isUserTalking={isUserTalking}
+                onPushToTalk={setPushToTalk}
+                wakeWord={wakeWord}
+                onWakeWordEnrollingChange={setWakeWordEnrolling}
               />
             </div>
           </div>
@@ -65,10 +137,13 @@ function App() {
               surfaces={surfaces}
               isGenerating={isGenerating}
               error={a2uiError}
+              onUserAction={handleA2UIAction}
             />
           </div>
         </div>
 
+        <AuditLogPanel />
+
         {error && (
           <div className={styles.errorContainer}>
             <div className={styles.error}>
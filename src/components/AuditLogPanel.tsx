@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ToolAuditEntry, ToolAuditFilter, ToolAuditOutcome } from '../types';
+import {
+  filterToolAuditEntries,
+  listToolAuditEntries,
+  subscribeToolAudit,
+  toolAuditEntriesToCsv,
+  toolAuditEntriesToJsonl
+} from '../utils/toolAuditLog';
+import styles from '../styles/AuditLogPanel.module.css';
+
+const OUTCOMES: ToolAuditOutcome[] = [
+  'success', 'error', 'invalid-arguments', 'refused', 'rejected', 'expired', 'unavailable', 'queued', 'cancelled'
+];
+
+// Rows rendered at once; exports always contain every filtered entry
+const MAX_VISIBLE_ENTRIES = 200;
+
+const DOWNLOAD_URL_LIFETIME_MS = 1000;
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers only start the download after click() returns; revoking at once can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
+
+const formatBytes = (bytes: number) => bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+// <input type="date"> values are local calendar days
+const parseDay = (value: string, endOfDay: boolean): Date | undefined =>
+  value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`) : undefined;
+
+export const AuditLogPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<ToolAuditEntry[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [toolName, setToolName] = useState('');
+  const [outcome, setOutcome] = useState<ToolAuditOutcome | ''>('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [text, setText] = useState('');
+
+  // Load on open and keep appending calls recorded while the panel is open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let active = true;
+    listToolAuditEntries()
+      .then(stored => {
+        if (!active) return;
+        setEntries(stored);
+        setLoadError(null);
+      })
+      .catch((storageError: unknown) => {
+        if (!active) return;
+        setLoadError(storageError instanceof Error ? storageError.message : String(storageError));
+      });
+    const unsubscribe = subscribeToolAudit(entry => setEntries(prev => [entry, ...prev]));
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [isOpen]);
+
+  const toolNames = useMemo(() => Array.from(new Set(entries.map(entry => entry.toolName))).sort(), [entries]);
+
+  const filtered = useMemo(() => {
+    const filter: ToolAuditFilter = {
+      toolName: toolName || undefined,
+      outcome: outcome || undefined,
+      from: parseDay(fromDay, false),
+      to: parseDay(toDay, true),
+      text
+    };
+    return filterToolAuditEntries(entries, filter);
+  }, [entries, toolName, outcome, fromDay, toDay, text]);
+
+  const handleExport = (format: 'jsonl' | 'csv') => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    if (format === 'jsonl') {
+      downloadFile(toolAuditEntriesToJsonl(filtered), `tool-audit-${stamp}.jsonl`, 'application/x-ndjson');
+    } else {
+      downloadFile(toolAuditEntriesToCsv(filtered), `tool-audit-${stamp}.csv`, 'text/csv');
+    }
+  };
+
+  return (
+    <div className={styles.auditLog}>
+      <button
+        type="button"
+        className={styles.toggle}
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? '▾' : '▸'} Tool audit log{isOpen ? ` (${entries.length} entries)` : ''}
+      </button>
+
+      {isOpen && (
+        <div className={styles.body}>
+          <div className={styles.filters}>
+            <select className={styles.input} value={toolName} onChange={(event) => setToolName(event.target.value)}>
+              <option value="">All tools</option>
+              {toolNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <select
+              className={styles.input}
+              value={outcome}
+              onChange={(event) => setOutcome(event.target.value as ToolAuditOutcome | '')}
+            >
+              <option value="">All outcomes</option>
+              {OUTCOMES.map(value => <option key={value} value={value}>{value}</option>)}
+            </select>
+            <input
+              type="date"
+              className={styles.input}
+              value={fromDay}
+              onChange={(event) => setFromDay(event.target.value)}
+              aria-label="From"
+            />
+            <input
+              type="date"
+              className={styles.input}
+              value={toDay}
+              onChange={(event) => setToDay(event.target.value)}
+              aria-label="To"
+            />
+            <input
+              type="search"
+              className={`${styles.input} ${styles.search}`}
+              value={text}
+              placeholder="Search user, arguments, errors, transcript"
+              onChange={(event) => setText(event.target.value)}
+            />
+            <div className={styles.actions}>
+              <button
+                type="button"
+                className={styles.button}
+                onClick={() => handleExport('jsonl')}
+                disabled={filtered.length === 0}
+              >
+                Export JSONL
+              </button>
+              <button
+                type="button"
+                className={styles.button}
+                onClick={() => handleExport('csv')}
+                disabled={filtered.length === 0}
+              >
+                Export CSV
+              </button>
+            </div>
+          </div>
+
+          {loadError && <div className={styles.loadError}>Audit log unavailable: {loadError}</div>}
+
+          <ul className={styles.list}>
+            {filtered.length === 0 && !loadError && <li className={styles.empty}>No tool calls recorded</li>}
+            {filtered.slice(0, MAX_VISIBLE_ENTRIES).map(entry => (
+              <li key={entry.id} className={styles.entry}>
+                <button
+                  type="button"
+                  className={styles.entryHeader}
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  aria-expanded={expandedId === entry.id}
+                >
+                  <span className={styles.time}>{new Date(entry.timestamp).toLocaleString()}</span>
+                  <span className={styles.toolName}>{entry.toolName}</span>
+                  <span className={`${styles.outcome} ${styles[entry.outcome] ?? ''}`}>{entry.outcome}</span>
+                  <span className={styles.meta}>
+                    {entry.durationMs} ms · {formatBytes(entry.resultBytes)}{entry.cacheHit && ` · ⚡ ${entry.cacheHit}`}
+                  </span>
+                  {entry.user
+                    ? <span className={styles.meta}>{entry.user}</span>
+                    : <span className={`${styles.meta} ${styles.unknownUser}`}>unknown operator</span>}
+                </button>
+                {expandedId === entry.id && (
+                  <dl className={styles.details}>
+                    <dt>Profile</dt>
+                    <dd>{entry.toolProfileId}</dd>
+                    <dt>Server tool</dt>
+                    <dd>{entry.serverId ? `${entry.serverId} · ` : ''}{entry.mcpName}</dd>
+                    {entry.conversationId && (
+                      <>
+                        <dt>Conversation</dt>
+                        <dd>{entry.conversationId}</dd>
+                      </>
+                    )}
+                    {entry.triggerTurn && (
+                      <>
+                        <dt>Triggered by</dt>
+                        <dd>{entry.triggerTurn}</dd>
+                      </>
+                    )}
+                    {entry.error && (
+                      <>
+                        <dt>Error</dt>
+                        <dd>{entry.error}</dd>
+                      </>
+                    )}
+                    <dt>Arguments</dt>
+                    <dd><pre className={styles.args}>{JSON.stringify(entry.args, null, 2)}</pre></dd>
+                  </dl>
+                )}
+              </li>
+            ))}
+          </ul>
+          {filtered.length > MAX_VISIBLE_ENTRIES && (
+            <div className={styles.hint}>
+              Showing the latest {MAX_VISIBLE_ENTRIES} of {filtered.length} entries; exports include all of them.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,70 @@
-import React, { useEffect, useRef } from 'react';
-import type { ChatMessage } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import type { ChatMessage, McpAttachment } from '../types';
+import { TRANSCRIPT_ARCHIVE_SETTINGS } from '../utils/audioConfig';
+import { getArchivedPage } from '../utils/transcriptArchive';
 import styles from '../styles/ChatWindow.module.css';
 
 interface ChatWindowProps {
   messages: ChatMessage[];
+  archivedMessages?: ChatMessage[];
+  onConfirmTool?: (id: string, approved: boolean) => void;
 }
 
-export const ChatWindow: React.FC<ChatWindowProps> = ({ messages }) => {
+const CONFIRMATION_STATUS_LABELS: Record<string, string> = {
+  approved: '✅ Aprobada',
+  rejected: '🚫 Rechazada',
+  expired: '⌛ Expirada',
+  cancelled: '⏹️ Cancelada'
+};
+
+const toDataUrl = (attachment: McpAttachment) =>
+  `data:${attachment.mimeType ?? 'application/octet-stream'};base64,${attachment.data}`;
+
+// Only web links are clickable; other URIs (sap://, file://) are shown as text
+const isWebUri = (uri?: string) => !!uri && /^https?:\/\//i.test(uri);
+
+const renderAttachment = (attachment: McpAttachment, index: number) => {
+  switch (attachment.kind) {
+    case 'image':
+      return (
+        <img key={index} className={styles.attachmentImage} src={toDataUrl(attachment)} alt={attachment.name} />
+      );
+    case 'audio':
+      return <audio key={index} className={styles.attachmentAudio} controls src={toDataUrl(attachment)} />;
+    case 'file':
+      return attachment.text !== undefined ? (
+        <details key={index} className={styles.toolDetails}>
+          <summary>📄 {attachment.name}</summary>
+          <pre className={styles.toolDataContent}>{attachment.text}</pre>
+        </details>
+      ) : (
+        <a key={index} className={styles.attachmentLink} href={toDataUrl(attachment)} download={attachment.name}>
+          📄 {attachment.name}
+        </a>
+      );
+    case 'link':
+      return isWebUri(attachment.uri) ? (
+        <a key={index} className={styles.attachmentLink} href={attachment.uri} target="_blank" rel="noopener noreferrer">
+          🔗 {attachment.name}
+        </a>
+      ) : (
+        <span key={index} className={styles.attachmentLink} title={attachment.uri}>🔗 {attachment.name}</span>
+      );
+  }
+};
+
+export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, archivedMessages = [], onConfirmTool }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [shownArchivedCount, setShownArchivedCount] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the elapsed time of running tools once a second
+  const hasRunningTool = messages.some(message => message.toolProgress && !message.toolProgress.finishedAt);
+  useEffect(() => {
+    if (!hasRunningTool) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningTool]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -17,6 +74,12 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages }) => {
     scrollToBottom();
   }, [messages]);
 
+  const formatElapsed = (message: ChatMessage) => {
+    const end = message.toolProgress?.finishedAt?.getTime() ?? now;
+    const seconds = Math.max(0, Math.round((end - message.timestamp.getTime()) / 1000));
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  };
+
   const formatTime = (timestamp: Date) => {
     return timestamp.toLocaleTimeString([], { 
       hour: '2-digit', 
@@ -24,51 +87,131 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages }) => {
     });
   };
 
+  // Reused results show where they came from and how old they were when handed out
+  const renderCacheBadge = (message: ChatMessage) => {
+    if (!message.cacheHit) return null;
+    if (message.cacheHit.source === 'in-flight') {
+      return <span className={styles.cacheBadge} title="Resultado de una consulta idéntica en curso">⚡ compartido</span>;
+    }
+    const seconds = Math.max(0, Math.round((message.timestamp.getTime() - message.cacheHit.cachedAt.getTime()) / 1000));
+    return (
+      <span className={styles.cacheBadge} title={`Resultado en caché de las ${formatTime(message.cacheHit.cachedAt)}`}>
+        ⚡ caché · {seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`}
+      </span>
+    );
+  };
+
+  const shownArchived = getArchivedPage(archivedMessages, shownArchivedCount);
+  const hiddenArchivedCount = archivedMessages.length - shownArchived.length;
+
+  const handleShowEarlier = () => {
+    setShownArchivedCount(count => count + TRANSCRIPT_ARCHIVE_SETTINGS.pageSize);
+  };
+
+  const renderMessage = (message: ChatMessage) => (
+    <div
+      key={message.id}
+      className={`${styles.message} ${
+        message.role === 'user' 
+          ? styles.userMessage 
+          : message.role === 'system' 
+            ? styles.systemMessage 
+            : styles.assistantMessage
+      }`}
+    >
+      <div className={styles.messageContent}>
+        <div className={styles.messageText}>
+          {message.content}
+          {message.type === 'tool-result' && renderCacheBadge(message)}
+          {/* Show additional tool data for system messages */}
+          {message.role === 'system' && message.type === 'tool-result' && message.toolData && (
+            <div className={styles.toolData}>
+              <details className={styles.toolDetails}>
+                <summary>Ver datos completos</summary>
+                <pre className={styles.toolDataContent}>
+                  {JSON.stringify(message.toolData, null, 2)}
+                </pre>
+              </details>
+            </div>
+          )}
+          {message.type === 'tool-start' && message.toolProgress && (
+            <div className={styles.toolProgress}>
+              <div className={styles.toolProgressHeader}>
+                <span>⏱ {formatElapsed(message)}</span>
+                {message.toolProgress.percent !== undefined && <span>{message.toolProgress.percent}%</span>}
+                {message.toolProgress.message && <span>{message.toolProgress.message}</span>}
+              </div>
+              {message.toolProgress.percent !== undefined && (
+                <div className={styles.progressTrack}>
+                  <div className={styles.progressBar} style={{ width: `${message.toolProgress.percent}%` }} />
+                </div>
+              )}
+              {message.toolProgress.logs.length > 0 && (
+                <pre className={styles.toolLogs}>{message.toolProgress.logs.join('\n')}</pre>
+              )}
+            </div>
+          )}
+          {message.attachments && message.attachments.length > 0 && (
+            <div className={styles.attachments}>
+              {message.attachments.map(renderAttachment)}
+            </div>
+          )}
+          {message.type === 'tool-confirmation' && message.confirmation && (
+            <div className={styles.confirmation}>
+              {message.confirmation.status === 'pending' && onConfirmTool ? (
+                <>
+                  <button
+                    type="button"
+                    className={`${styles.confirmButton} ${styles.approveButton}`}
+                    onClick={() => onConfirmTool(message.confirmation!.id, true)}
+                  >
+                    Aprobar
+                  </button>
+                  <button
+                    type="button"
+                    className={`${styles.confirmButton} ${styles.rejectButton}`}
+                    onClick={() => onConfirmTool(message.confirmation!.id, false)}
+                  >
+                    Rechazar
+                  </button>
+                </>
+              ) : (
+                <span className={styles.confirmationStatus}>
+                  {CONFIRMATION_STATUS_LABELS[message.confirmation.status] ?? ''}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+        <div className={styles.messageTime}>
+          {formatTime(message.timestamp)}
+          {message.role === 'system' && message.toolName && (
+            <span className={styles.toolName}> • {message.toolName}</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className={styles.chatWindow}>
       <div className={styles.messagesContainer}>
-        {messages.length === 0 ? (
+        {messages.length === 0 && archivedMessages.length === 0 ? (
           <div className={styles.emptyState}>
             <div className={styles.emptyIcon}>🎤</div>
             <h3>Ready to assist with your SAP sales orders</h3>
             <p>Start a conversation to begin using the SAP Order-to-Cash tools</p>
           </div>
         ) : (
-          messages.map((message) => (
-            <div
-              key={message.id}
-              className={`${styles.message} ${
-                message.role === 'user' 
-                  ? styles.userMessage 
-                  : message.role === 'system' 
-                    ? styles.systemMessage 
-                    : styles.assistantMessage
-              }`}
-            >
-              <div className={styles.messageContent}>
-                <div className={styles.messageText}>
-                  {message.content}
-                  {/* Show additional tool data for system messages */}
-                  {message.role === 'system' && message.type === 'tool-result' && message.toolData && (
-                    <div className={styles.toolData}>
-                      <details className={styles.toolDetails}>
-                        <summary>Ver datos completos</summary>
-                        <pre className={styles.toolDataContent}>
-                          {JSON.stringify(message.toolData, null, 2)}
-                        </pre>
-                      </details>
-                    </div>
-                  )}
-                </div>
-                <div className={styles.messageTime}>
-                  {formatTime(message.timestamp)}
-                  {message.role === 'system' && message.toolName && (
-                    <span className={styles.toolName}> • {message.toolName}</span>
-                  )}
-                </div>
-              </div>
-            </div>
-          ))
+          <>
+            {hiddenArchivedCount > 0 && (
+              <button type="button" className={styles.showEarlier} onClick={handleShowEarlier}>
+                Mostrar mensajes anteriores ({hiddenArchivedCount})
+              </button>
+            )}
+            {shownArchived.map(renderMessage)}
+            {messages.map(renderMessage)}
+          </>
         )}
         <div ref={messagesEndRef} />
       </div>
@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
-import type { AppState } from '../types';
+import React, { useEffect, useState } from 'react';
+import type { AppState, AudioInputMode, WakeWordStatus } from '../types';
+import { PUSH_TO_TALK_KEY, WAKE_WORD_SETTINGS } from '../utils/audioConfig';
 import styles from '../styles/Controls.module.css';
 
 interface ControlsProps {
@@ -8,16 +9,69 @@ interface ControlsProps {
   onStartConversation: () => void;
   onEndConversation: () => void;
   onSendMessage: (message: string) => void;
+  inputMode?: AudioInputMode;
+  isUserTalking?: boolean;
+  onPushToTalk?: (active: boolean) => void;
+  wakeWord?: WakeWordStatus | null;
+  onWakeWordEnrollingChange?: (active: boolean) => void;
 }
 
+// Typing in the test input (or any other field) must not trigger push-to-talk
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
 export const Controls: React.FC<ControlsProps> = ({
   state,
   isConnected,
   onStartConversation,
   onEndConversation,
-  onSendMessage
+  onSendMessage,
+  inputMode = 'server-vad',
+  isUserTalking = false,
+  onPushToTalk,
+  wakeWord = null,
+  onWakeWordEnrollingChange
 }) => {
   const [testMessage, setTestMessage] = useState('');
+  const isPushToTalk = inputMode === 'push-to-talk' && !!onPushToTalk;
+  const canTalk = isPushToTalk && isConnected;
+  const isWakeWord = inputMode === 'wake-word';
+  const isEnrolling = wakeWord?.state === 'enrolling';
+  const isUntrained = wakeWord?.state === 'untrained';
+
+  // Hold the push-to-talk key anywhere on the page. Switching window or tab releases it,
+  // since the keyup or pointerup would then go to another window and never arrive here.
+  useEffect(() => {
+    if (!canTalk) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== PUSH_TO_TALK_KEY || event.repeat || isEditableTarget(event.target)) return;
+      event.preventDefault();
+      onPushToTalk(true);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== PUSH_TO_TALK_KEY || isEditableTarget(event.target)) return;
+      event.preventDefault();
+      onPushToTalk(false);
+    };
+    const handleBlur = () => onPushToTalk(false);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') onPushToTalk(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      onPushToTalk(false);
+    };
+  }, [canTalk, onPushToTalk]);
 
   const handleStartClick = () => {
     onStartConversation();
@@ -37,7 +91,8 @@ export const Controls: React.FC<ControlsProps> = ({
 
   const isIdle = state === 'IDLE';
   const canStart = isIdle && !isConnected;
-  const canEnd = isConnected;
+  const isReconnecting = state === 'RECONNECTING';
+  const canEnd = isConnected || isReconnecting;
   const canSendMessage = isConnected && testMessage.trim().length > 0;
 
   return (
@@ -48,7 +103,7 @@ export const Controls: React.FC<ControlsProps> = ({
           disabled={!canStart}
           className={`${styles.button} ${styles.startButton}`}
         >
-          {state === 'IDLE' && !isConnected ? 'Start Conversation' : 'Starting...'}
+          {state === 'IDLE' && !isConnected ? 'Start Conversation' : isReconnecting ? 'Reconnecting...' : 'Starting...'}
         </button>
 
         <button
@@ -60,6 +115,37 @@ export const Controls: React.FC<ControlsProps> = ({
         </button>
       </div>
 
+      {isPushToTalk && (
+        <div className={styles.mainControls}>
+          <button
+            type="button"
+            disabled={!canTalk}
+            onPointerDown={() => onPushToTalk(true)}
+            onPointerUp={() => onPushToTalk(false)}
+            onPointerLeave={() => onPushToTalk(false)}
+            onPointerCancel={() => onPushToTalk(false)}
+            className={`${styles.button} ${styles.talkButton} ${isUserTalking ? styles.talking : ''}`}
+          >
+            {isUserTalking ? '🎙️ Talking...' : 'Hold to Talk (Space)'}
+          </button>
+        </div>
+      )}
+
+      {isWakeWord && wakeWord && onWakeWordEnrollingChange && (
+        <div className={styles.mainControls}>
+          <button
+            type="button"
+            disabled={!isConnected}
+            onClick={() => onWakeWordEnrollingChange(!isEnrolling)}
+            className={`${styles.button} ${styles.talkButton} ${isEnrolling ? styles.talking : ''}`}
+          >
+            {isEnrolling
+              ? `Cancel recording (${wakeWord.samples}/${wakeWord.requiredSamples})`
+              : `${isUntrained ? 'Record' : 'Re-record'} "${wakeWord.phrase}"`}
+          </button>
+        </div>
+      )}
+
       {/* Test message input for development */}
       <div className={styles.testControls}>
         <form onSubmit={handleSendTestMessage} className={styles.testForm}>
@@ -82,12 +168,29 @@ export const Controls: React.FC<ControlsProps> = ({
       </div>
 
       <div className={styles.instructions}>
-        {!isConnected && (
+        {!isConnected && !isReconnecting && (
           <p>Click "Start Conversation" to begin audio interaction with the SAP assistant</p>
         )}
-        {isConnected && state === 'LISTENING' && (
+        {isReconnecting && (
+          <p>🔄 Connection lost, resuming the conversation...</p>
+        )}
+        {isConnected && state === 'LISTENING' && !isPushToTalk && !isWakeWord && (
           <p>🎤 Listening... Speak naturally about your SAP sales orders</p>
         )}
+        {isConnected && state === 'LISTENING' && isPushToTalk && (
+          <p>🎤 Hold the button or the space bar while you speak</p>
+        )}
+        {isConnected && isWakeWord && isUntrained && (
+          <p>⚠️ Record "{WAKE_WORD_SETTINGS.phrase}" first: no audio is sent until the wake word is recorded</p>
+        )}
+        {isConnected && isWakeWord && isEnrolling && wakeWord && (
+          <p>
+            🎙️ Say "{wakeWord.phrase}" on its own, then pause. Sample {wakeWord.samples + 1} of {wakeWord.requiredSamples}
+          </p>
+        )}
+        {isConnected && state === 'LISTENING' && isWakeWord && !isUntrained && !isEnrolling && (
+          <p>🎤 Say "{WAKE_WORD_SETTINGS.phrase}" first, then ask about your SAP sales orders</p>
+        )}
         {isConnected && state === 'PROCESSING' && (
           <p>⏳ Processing your request and executing SAP tools...</p>
         )}
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import type { McpPrompt, McpResource, McpResourceContent } from '../types';
+import styles from '../styles/ResourceBrowser.module.css';
+
+interface ResourceBrowserProps {
+  resources: McpResource[];
+  prompts: McpPrompt[];
+  isConnected: boolean;
+  onReadResource: (resource: McpResource) => Promise<McpResourceContent[]>;
+  onAttachResource: (resource: McpResource) => Promise<void>;
+  onStartPrompt: (prompt: McpPrompt, args: Record<string, string>) => Promise<void>;
+}
+
+type Tab = 'resources' | 'prompts';
+
+const PREVIEW_MAX_CHARS = 2000;
+
+const resourceKey = (resource: McpResource) => `${resource.serverId}:${resource.uri}`;
+const promptKey = (prompt: McpPrompt) => `${prompt.serverId}:${prompt.name}`;
+
+const formatPreview = (contents: McpResourceContent[]): string => {
+  const text = contents
+    .map(content => content.text ?? `[${content.mimeType ?? 'binary'} content]`)
+    .join('\n\n');
+  return text.length > PREVIEW_MAX_CHARS ? `${text.slice(0, PREVIEW_MAX_CHARS)}…` : text;
+};
+
+export const ResourceBrowser: React.FC<ResourceBrowserProps> = ({
+  resources,
+  prompts,
+  isConnected,
+  onReadResource,
+  onAttachResource,
+  onStartPrompt
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tab, setTab] = useState<Tab>('resources');
+  const [preview, setPreview] = useState<{ key: string; text: string } | null>(null);
+  const [selectedPrompt, setSelectedPrompt] = useState<string | null>(null);
+  const [promptArgs, setPromptArgs] = useState<Record<string, string>>({});
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  if (resources.length === 0 && prompts.length === 0) {
+    return null;
+  }
+
+  const runBusy = async (key: string, action: () => Promise<void>) => {
+    setBusyKey(key);
+    try {
+      await action();
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handlePreview = (resource: McpResource) => {
+    const key = resourceKey(resource);
+    if (preview?.key === key) {
+      setPreview(null);
+      return;
+    }
+    void runBusy(key, async () => {
+      try {
+        setPreview({ key, text: formatPreview(await onReadResource(resource)) });
+      } catch (readError) {
+        setPreview({ key, text: `Failed to read resource: ${readError instanceof Error ? readError.message : String(readError)}` });
+      }
+    });
+  };
+
+  const handleSelectPrompt = (prompt: McpPrompt) => {
+    const key = promptKey(prompt);
+    setSelectedPrompt(selectedPrompt === key ? null : key);
+    setPromptArgs({});
+  };
+
+  const handleStartPrompt = (event: React.FormEvent, prompt: McpPrompt) => {
+    event.preventDefault();
+    void runBusy(promptKey(prompt), async () => {
+      await onStartPrompt(prompt, promptArgs);
+      setSelectedPrompt(null);
+      setPromptArgs({});
+    });
+  };
+
+  return (
+    <div className={styles.resourceBrowser}>
+      <button
+        type="button"
+        className={styles.toggle}
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? '▾' : '▸'} MCP Library ({resources.length} resources, {prompts.length} prompts)
+      </button>
+
+      {isOpen && (
+        <div className={styles.body}>
+          <div className={styles.tabs}>
+            <button
+              type="button"
+              className={`${styles.tab} ${tab === 'resources' ? styles.activeTab : ''}`}
+              onClick={() => setTab('resources')}
+            >
+              Resources
+            </button>
+            <button
+              type="button"
+              className={`${styles.tab} ${tab === 'prompts' ? styles.activeTab : ''}`}
+              onClick={() => setTab('prompts')}
+            >
+              Conversation starters
+            </button>
+          </div>
+
+          {!isConnected && (
+            <div className={styles.hint}>Start a conversation to attach resources or use a starter.</div>
+          )}
+
+          {tab === 'resources' && (
+            <ul className={styles.list}>
+              {resources.length === 0 && <li className={styles.empty}>No resources available</li>}
+              {resources.map((resource) => {
+                const key = resourceKey(resource);
+                return (
+                  <li key={key} className={styles.item}>
+                    <div className={styles.itemHeader}>
+                      <div className={styles.itemText}>
+                        <span className={styles.itemName}>{resource.title ?? resource.name}</span>
+                        <span className={styles.itemMeta}>
+                          {resource.serverId} · {resource.mimeType ?? resource.uri}
+                        </span>
+                      </div>
+                      <div className={styles.actions}>
+                        <button
+                          type="button"
+                          className={styles.secondaryButton}
+                          onClick={() => handlePreview(resource)}
+                          disabled={busyKey === key}
+                        >
+                          {preview?.key === key ? 'Hide' : 'Preview'}
+                        </button>
+                        <button
+                          type="button"
+                          className={styles.primaryButton}
+                          onClick={() => void runBusy(key, () => onAttachResource(resource))}
+                          disabled={!isConnected || busyKey === key}
+                        >
+                          Attach
+                        </button>
+                      </div>
+                    </div>
+                    {resource.description && <div className={styles.description}>{resource.description}</div>}
+                    {preview?.key === key && <pre className={styles.preview}>{preview.text}</pre>}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {tab === 'prompts' && (
+            <ul className={styles.list}>
+              {prompts.length === 0 && <li className={styles.empty}>No conversation starters available</li>}
+              {prompts.map((prompt) => {
+                const key = promptKey(prompt);
+                const missingRequired = prompt.arguments.some(
+                  argument => argument.required && !promptArgs[argument.name]?.trim()
+                );
+                return (
+                  <li key={key} className={styles.item}>
+                    <div className={styles.itemHeader}>
+                      <div className={styles.itemText}>
+                        <span className={styles.itemName}>{prompt.title ?? prompt.name}</span>
+                        <span className={styles.itemMeta}>{prompt.serverId}</span>
+                      </div>
+                      <button type="button" className={styles.secondaryButton} onClick={() => handleSelectPrompt(prompt)}>
+                        {selectedPrompt === key ? 'Close' : 'Use'}
+                      </button>
+                    </div>
+                    {prompt.description && <div className={styles.description}>{prompt.description}</div>}
+
+                    {selectedPrompt === key && (
+                      <form className={styles.promptForm} onSubmit={(event) => handleStartPrompt(event, prompt)}>
+                        {prompt.arguments.map((argument) => (
+                          <label key={argument.name} className={styles.argument}>
+                            <span>
+                              {argument.name}
+                              {argument.required && ' *'}
+                            </span>
+                            <input
+                              type="text"
+                              className={styles.input}
+                              value={promptArgs[argument.name] ?? ''}
+                              placeholder={argument.description}
+                              onChange={(event) => setPromptArgs({ ...promptArgs, [argument.name]: event.target.value })}
+                            />
+                          </label>
+                        ))}
+                        <button
+                          type="submit"
+                          className={styles.primaryButton}
+                          disabled={!isConnected || missingRequired || busyKey === key}
+                        >
+                          Start
+                        </button>
+                      </form>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import type { McpServerState } from '../types';
+import { MCP_SERVER_STATUS_COLORS } from '../utils/audioConfig';
+import styles from '../styles/ServerHealth.module.css';
+
+interface ServerHealthProps {
+  servers: McpServerState[];
+}
+
+const describeServer = (server: McpServerState): string => {
+  const details = [server.error ? `${server.status}: ${server.error}` : server.status];
+  if (server.latencyMs !== undefined) {
+    details.push(`ping ${server.latencyMs}ms`);
+  }
+  if (server.nextRetryAt) {
+    details.push(`retry at ${server.nextRetryAt.toLocaleTimeString()}`);
+  }
+  return details.join(' · ');
+};
+
+export const ServerHealth: React.FC<ServerHealthProps> = ({ servers }) => {
+  if (servers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={styles.serverHealth}>
+      <div className={styles.label}>MCP:</div>
+      {servers.map((server) => (
+        <div
+          key={server.id}
+          className={styles.server}
+          title={describeServer(server)}
+        >
+          <div
+            className={styles.dot}
+            style={{ backgroundColor: MCP_SERVER_STATUS_COLORS[server.status] }}
+          />
+          {server.label}
+          {server.status === 'connected' && (
+            <span className={styles.toolCount}>{server.toolCount} tools</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,13 +1,16 @@
 import React from 'react';
-import type { AppState } from '../types';
-import { STATE_DISPLAY_NAMES, STATE_COLORS } from '../utils/audioConfig';
+import type { AppState, McpConnectionState, SessionLimitStatus, WakeWordStatus } from '../types';
+import { STATE_DISPLAY_NAMES, STATE_COLORS, MCP_CONNECTION_STATE_DISPLAY, WAKE_WORD_STATE_DISPLAY } from '../utils/audioConfig';
 import styles from '../styles/StatusIndicator.module.css';
 
 interface StatusIndicatorProps {
   state: AppState;
+  sessionLimit?: SessionLimitStatus | null;
+  mcpState?: McpConnectionState;
+  wakeWord?: WakeWordStatus | null;
 }
 
-export const StatusIndicator: React.FC<StatusIndicatorProps> = ({ state }) => {
+export const StatusIndicator: React.FC<StatusIndicatorProps> = ({ state, sessionLimit, mcpState, wakeWord }) => {
   const displayName = STATE_DISPLAY_NAMES[state];
   const color = STATE_COLORS[state];
 
@@ -24,6 +27,45 @@ export const StatusIndicator: React.FC<StatusIndicatorProps> = ({ state }) => {
         />
         {displayName}
       </div>
+      {mcpState && (
+        <div
+          className={styles.mcpState}
+          style={{ color: MCP_CONNECTION_STATE_DISPLAY[mcpState].color }}
+          title="MCP server connections"
+        >
+          MCP {MCP_CONNECTION_STATE_DISPLAY[mcpState].label}
+        </div>
+      )}
+      {wakeWord && (
+        <div
+          className={styles.wakeWord}
+          style={{ color: WAKE_WORD_STATE_DISPLAY[wakeWord.state].color }}
+          title={wakeWord.state === 'untrained'
+            ? `Record "${wakeWord.phrase}" in the controls; no audio is sent until then`
+            : wakeWord.state === 'enrolling'
+              ? `Say "${wakeWord.phrase}" on its own, pausing after each time`
+              : `Audio is only sent after "${wakeWord.phrase}"`}
+        >
+          {wakeWord.state === 'armed' ? '👂' : wakeWord.state === 'disarmed' ? '💤' : wakeWord.state === 'untrained' ? '⚠️' : '🎙️'}{' '}
+          {wakeWord.phrase}: {WAKE_WORD_STATE_DISPLAY[wakeWord.state].label}
+          {wakeWord.state === 'enrolling' && ` ${wakeWord.samples}/${wakeWord.requiredSamples}`}
+        </div>
+      )}
+      {sessionLimit && (
+        <div
+          className={`${styles.sessionLimit} ${
+            sessionLimit.level === 'critical'
+              ? styles.sessionLimitCritical
+              : sessionLimit.level === 'warning'
+                ? styles.sessionLimitWarning
+                : ''
+          }`}
+          title={`${sessionLimit.contextTokens.toLocaleString()} context tokens`}
+        >
+          {sessionLimit.level !== 'ok' && '⚠️ '}
+          {sessionLimit.message}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { ToolProfile } from '../types';
+import { TOOL_PROFILES } from '../utils/audioConfig';
+import styles from '../styles/ToolProfileSelector.module.css';
+
+interface ToolProfileSelectorProps {
+  profileId: string;
+  onProfileChange: (profileId: string) => void;
+  profiles?: ToolProfile[];
+}
+
+export const ToolProfileSelector: React.FC<ToolProfileSelectorProps> = ({
+  profileId,
+  onProfileChange,
+  profiles = TOOL_PROFILES
+}) => {
+  const handleProfileChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    onProfileChange(event.target.value);
+  };
+
+  return (
+    <div className={styles.toolProfileSelector}>
+      <label htmlFor="tool-profile-select" className={styles.label}>
+        Tools:
+      </label>
+      <select
+        id="tool-profile-select"
+        value={profileId}
+        onChange={handleProfileChange}
+        className={styles.select}
+      >
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import type { McpToolListDiff } from '../types';
+import styles from '../styles/ToolUpdateBanner.module.css';
+
+interface ToolUpdateBannerProps {
+  diff: McpToolListDiff | null;
+  onRestart: () => void;
+}
+
+const describeNames = (label: string, names: string[]): string | null =>
+  names.length > 0 ? `${label}: ${names.join(', ')}` : null;
+
+export const ToolUpdateBanner: React.FC<ToolUpdateBannerProps> = ({ diff, onRestart }) => {
+  if (!diff) {
+    return null;
+  }
+
+  const details = [
+    describeNames('added', diff.added),
+    describeNames('removed', diff.removed),
+    describeNames('changed', diff.changed)
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className={styles.toolUpdateBanner} role="status">
+      <div className={styles.text}>
+        <strong>MCP tools were updated.</strong> Restart the session to use them.
+        <div className={styles.details}>{details}</div>
+      </div>
+      <button type="button" className={styles.restartButton} onClick={onRestart}>
+        Restart session
+      </button>
+    </div>
+  );
+};
@@ -1,14 +1,34 @@
 import React, { useState } from 'react';
-import type { VoiceOption } from '../types';
-import { VOICE_OPTIONS, DEFAULT_VOICE, getVoiceDisplayName } from '../utils/audioConfig';
+import type { AudioInputMode, VoiceOption } from '../types';
+import {
+  VOICE_OPTIONS,
+  DEFAULT_VOICE,
+  LANGUAGE_OPTIONS,
+  INPUT_MODE_OPTIONS,
+  DEFAULT_AUDIO_CONFIG,
+  GEMINI_LIVE_MODEL,
+  getVoiceDisplayName,
+  supportsAffectiveDialog
+} from '../utils/audioConfig';
 import styles from '../styles/VoiceSelector.module.css';
 
 interface VoiceSelectorProps {
   onVoiceChange: (voice: VoiceOption) => void;
+  onLanguageChange?: (languageCode: string) => void;
+  onInputModeChange?: (inputMode: AudioInputMode) => void;
+  onAffectiveDialogChange?: (enabled: boolean) => void;
 }
 
-export const VoiceSelector: React.FC<VoiceSelectorProps> = ({ onVoiceChange }) => {
+export const VoiceSelector: React.FC<VoiceSelectorProps> = ({
+  onVoiceChange,
+  onLanguageChange,
+  onInputModeChange,
+  onAffectiveDialogChange
+}) => {
   const [selectedVoice, setSelectedVoice] = useState<VoiceOption>(DEFAULT_VOICE);
+  const [selectedLanguage, setSelectedLanguage] = useState('');
+  const [selectedInputMode, setSelectedInputMode] = useState<AudioInputMode>(DEFAULT_AUDIO_CONFIG.inputMode);
+  const [affectiveDialog, setAffectiveDialog] = useState(Boolean(DEFAULT_AUDIO_CONFIG.enableAffectiveDialog));
 
   const handleVoiceChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
     const voice = event.target.value as VoiceOption;
@@ -16,6 +36,23 @@ export const VoiceSelector: React.FC<VoiceSelectorProps> = ({ onVoiceChange }) =
     onVoiceChange(voice);
   };
 
+  const handleLanguageChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const languageCode = event.target.value;
+    setSelectedLanguage(languageCode);
+    onLanguageChange?.(languageCode);
+  };
+
+  const handleInputModeChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const inputMode = event.target.value as AudioInputMode;
+    setSelectedInputMode(inputMode);
+    onInputModeChange?.(inputMode);
+  };
+
+  const handleAffectiveDialogChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setAffectiveDialog(event.target.checked);
+    onAffectiveDialogChange?.(event.target.checked);
+  };
+
   return (
     <div className={styles.voiceSelector}>
       <label htmlFor="voice-select" className={styles.label}>
@@ -33,6 +70,59 @@ export const VoiceSelector: React.FC<VoiceSelectorProps> = ({ onVoiceChange }) =
           </option>
         ))}
       </select>
+
+      {onLanguageChange && (
+        <>
+          <label htmlFor="language-select" className={styles.label}>
+            Language:
+          </label>
+          <select
+            id="language-select"
+            value={selectedLanguage}
+            onChange={handleLanguageChange}
+            className={styles.select}
+          >
+            {LANGUAGE_OPTIONS.map((language) => (
+              <option key={language.code} value={language.code}>
+                {language.label}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+
+      {onInputModeChange && (
+        <>
+          <label htmlFor="input-mode-select" className={styles.label}>
+            Input:
+          </label>
+          <select
+            id="input-mode-select"
+            value={selectedInputMode}
+            onChange={handleInputModeChange}
+            className={styles.select}
+          >
+            {INPUT_MODE_OPTIONS.map((option) => (
+              <option key={option.mode} value={option.mode}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+
+      {onAffectiveDialogChange && supportsAffectiveDialog(GEMINI_LIVE_MODEL) && (
+        <label htmlFor="affective-dialog-toggle" className={styles.label}>
+          <input
+            id="affective-dialog-toggle"
+            type="checkbox"
+            checked={affectiveDialog}
+            onChange={handleAffectiveDialogChange}
+            className={styles.checkbox}
+          />
+          Adapt tone
+        </label>
+      )}
     </div>
   );
 };
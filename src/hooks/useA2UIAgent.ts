@@ -172,5 +172,22 @@ export function useA2UIAgent(): UseA2UIAgentReturn {
     setError(null);
   }, []);
 
-  return { generateUI, surfaces, isGenerating, error, clearSurfaces };
+  const removeSurface = useCallback((surfaceId: string) => {
+    setSurfaces(prev => {
+      if (!prev.has(surfaceId)) return prev;
+      const next = new Map(prev);
+      next.delete(surfaceId);
+      return next;
+    });
+  }, []);
+
+  return {
+    generateUI,
+    surfaces,
+    isGenerating,
+    error,
+    clearSurfaces,
+    renderMessages: processMessages,
+    removeSurface
+  };
 }
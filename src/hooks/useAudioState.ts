@@ -1,17 +1,29 @@
-import { useState, useCallback } from 'react';
-import type { AppState, UseAudioStateReturn } from '../types';
+import { useState, useCallback, useRef } from 'react';
+import type { AppState, LiveSessionEvent, LiveSessionState, UseAudioStateReturn } from '../types';
+import { INITIAL_LIVE_SESSION_STATE, reduceLiveSession } from '../utils/liveSessionMachine';
 
 /**
  * Custom hook for managing audio conversation states
- * Handles transitions between IDLE, LISTENING, PROCESSING, and SPEAKING states
+ * Drives the Live session engine and exposes the resulting IDLE, LISTENING,
+ * PROCESSING and SPEAKING state. `dispatch` returns the commands to execute.
  */
-export const useAudioState = (initialState: AppState = 'IDLE'): UseAudioStateReturn => {
-  const [currentState, setCurrentState] = useState<AppState>(initialState);
+export const useAudioState = (): UseAudioStateReturn => {
+  // The engine state lives in a ref so dispatch stays synchronous inside WebSocket callbacks
+  const sessionRef = useRef<LiveSessionState>(INITIAL_LIVE_SESSION_STATE);
+  const [currentState, setCurrentState] = useState<AppState>(INITIAL_LIVE_SESSION_STATE.appState);
 
-  const setState = useCallback((newState: AppState) => {
-    console.log(`[AudioState] Transitioning from ${currentState} to ${newState}`);
-    setCurrentState(newState);
-  }, [currentState]);
+  const dispatch = useCallback((event: LiveSessionEvent) => {
+    const previous = sessionRef.current;
+    const { state, commands } = reduceLiveSession(previous, event);
+
+    if (state.appState !== previous.appState) {
+      console.log(`[AudioState] ${event.type}: transitioning from ${previous.appState} to ${state.appState}`);
+    }
+
+    sessionRef.current = state;
+    setCurrentState(state.appState);
+    return commands;
+  }, []);
 
   // Computed state helpers
   const isIdle = currentState === 'IDLE';
@@ -21,7 +33,7 @@ export const useAudioState = (initialState: AppState = 'IDLE'): UseAudioStateRet
 
   return {
     currentState,
-    setState,
+    dispatch,
     isListening,
     isProcessing,
     isSpeaking,
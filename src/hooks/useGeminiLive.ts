@@ -1,17 +1,90 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { GoogleGenAI } from '@google/genai';
+import type { LiveSendRealtimeInputParameters } from '@google/genai';
 import type { 
   UseGeminiLiveReturn, 
+  UseGeminiLiveOptions,
   ChatMessage, 
   AppError, 
-  VoiceOption
+  VoiceOption,
+  AudioConfig,
+  FunctionCall,
+  FunctionResponse,
+  McpTool,
+  McpToolListDiff,
+  McpResource,
+  McpPrompt,
+  ToolProgressState,
+  ToolProgressUpdate,
+  QueuedToolCall,
+  ToolAuditOutcome,
+  ToolCacheHit,
+  PendingToolConfirmation,
+  ToolConfirmationStatus,
+  LiveTransport,
+  LiveTransportSession,
+  LiveServerPayload,
+  LiveSessionCommand,
+  SessionLimitStatus,
+  VoiceActivityState,
+  CaptureChunk,
+  WakeWordModel,
+  WakeWordStatus
 } from '../types';
 import { 
-  getApiKey, 
-  DEFAULT_VOICE
+  DEFAULT_AUDIO_CONFIG,
+  DEFAULT_CONTEXT_COMPRESSION,
+  DEFAULT_TOOL_EXECUTION,
+  DEFAULT_TOOL_CONFIRMATION,
+  DEFAULT_OFFLINE_TOOL_QUEUE,
+  DEFAULT_TOOL_RESULT_CACHE,
+  CLIENT_VAD_SETTINGS,
+  WAKE_WORD_SETTINGS,
+  TOOL_PROFILES,
+  TRANSCRIPT_ARCHIVE_SETTINGS,
+  MCP_RESOURCE_MAX_CHARS,
+  GEMINI_LIVE_MODEL,
+  LIVE_RECONNECT_POLICY,
+  buildSpeechConfig,
+  supportsAffectiveDialog,
+  getAuditUser
 } from '../utils/audioConfig';
-import { convertMcpToolsToGemini } from '../utils/mcpToolConverter';
+import { getBackoffDelay } from '../utils/backoff';
+import { buildContextWindowCompression, getSessionLimitStatus } from '../utils/sessionLimits';
+import { selectMessagesToArchive } from '../utils/transcriptArchive';
+import { runWithConcurrency } from '../utils/toolExecutor';
+import { getToolCacheTtl } from '../utils/toolResultCache';
+import { clampCaptureChunkMs, concatPcm, connectCaptureSource, encodeBase64, LIVE_INPUT_SAMPLE_RATE } from '../utils/pcmAudio';
+import { analyzePcmFrame, INITIAL_VOICE_ACTIVITY, isSpeechFrame, updateVoiceActivity } from '../utils/voiceActivity';
+import {
+  buildWakeWordInstruction,
+  buildWakeWordModel,
+  computeMfcc,
+  loadWakeWordModel,
+  matchesWakeWord,
+  saveWakeWordModel,
+  trimSilence
+} from '../utils/wakeWord';
+import { appendToolAuditEntry, createToolAuditId, measureResultBytes } from '../utils/toolAuditLog';
+import { getToolConfirmationPolicy, parseVoiceConfirmation } from '../utils/toolPolicy';
+import { applyToolProfile, findToolProfile, loadToolProfileId, saveToolProfileId } from '../utils/toolProfiles';
+import { diffToolLists, isEmptyToolListDiff } from '../utils/mcpRegistry';
+import { buildResourceContextParts, promptMessagesToTurns } from '../utils/mcpResources';
+import {
+  buildDegradedModeInstruction,
+  buildQueuedResultsMessage,
+  formatServiceUnavailableResponse,
+  isToolServerAvailable
+} from '../utils/offlineQueue';
+import {
+  convertMcpToolsToGemini,
+  getToolResponseScheduling,
+  isNonBlockingTool,
+  isToolFailureResponse
+} from '../utils/mcpToolConverter';
+import { createLiveTransport } from '../utils/liveTransport';
+import { mapServerMessageToEvents } from '../utils/liveSessionMachine';
 import { getValidatedSystemInstruction } from '../utils/promptLoader';
+import audioProcessorUrl from '../worklets/audio-processor.js?worker&url';
 import { useMcpClient } from './useMcpClient';
 import { useAudioState } from './useAudioState';
 
@@ -19,17 +92,63 @@ import { useAudioState } from './useAudioState';
  * Custom hook for managing Gemini Live session with audio and tool integration
  * Now using AudioWorklet for proper PCM audio processing
  */
-export const useGeminiLive = (options?: { onToolResponse?: (toolName: string, toolData: unknown) => void }): UseGeminiLiveReturn => {
+export const useGeminiLive = (options?: UseGeminiLiveOptions): UseGeminiLiveReturn => {
   // Ref to always have the latest callback (avoids stale closure in WebSocket onmessage)
   const onToolResponseRef = useRef(options?.onToolResponse);
   onToolResponseRef.current = options?.onToolResponse;
 
-  const isProcessingTool = useRef<boolean>(false);
+  const contextCompression = options?.contextCompression ?? DEFAULT_CONTEXT_COMPRESSION;
+  const contextCompressionRef = useRef(contextCompression);
+  contextCompressionRef.current = contextCompression;
+
+  const toolExecutionRef = useRef(options?.toolExecution ?? DEFAULT_TOOL_EXECUTION);
+  toolExecutionRef.current = options?.toolExecution ?? DEFAULT_TOOL_EXECUTION;
+
+  const toolConfirmationRef = useRef(options?.toolConfirmation ?? DEFAULT_TOOL_CONFIRMATION);
+  toolConfirmationRef.current = options?.toolConfirmation ?? DEFAULT_TOOL_CONFIRMATION;
+
+  const toolProfilesRef = useRef(options?.toolProfiles ?? TOOL_PROFILES);
+  toolProfilesRef.current = options?.toolProfiles ?? TOOL_PROFILES;
+
+  const onConfirmationRequestedRef = useRef(options?.onConfirmationRequested);
+  onConfirmationRequestedRef.current = options?.onConfirmationRequested;
+  const onConfirmationResolvedRef = useRef(options?.onConfirmationResolved);
+  onConfirmationResolvedRef.current = options?.onConfirmationResolved;
+
+  const toolListRefreshRef = useRef(options?.toolListRefresh ?? 'prompt');
+  toolListRefreshRef.current = options?.toolListRefresh ?? 'prompt';
+
+  const offlineQueueSettingsRef = useRef(options?.offlineQueue ?? DEFAULT_OFFLINE_TOOL_QUEUE);
+  offlineQueueSettingsRef.current = options?.offlineQueue ?? DEFAULT_OFFLINE_TOOL_QUEUE;
+
+  const toolResultCacheRef = useRef(options?.toolResultCache ?? DEFAULT_TOOL_RESULT_CACHE);
+  toolResultCacheRef.current = options?.toolResultCache ?? DEFAULT_TOOL_RESULT_CACHE;
+
   const [session, setSession] = useState<any | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [archivedMessages, setArchivedMessages] = useState<ChatMessage[]>([]);
+  const [sessionLimit, setSessionLimit] = useState<SessionLimitStatus | null>(null);
+  const [pendingConfirmations, setPendingConfirmations] = useState<PendingToolConfirmation[]>([]);
+  const [pendingToolUpdate, setPendingToolUpdate] = useState<McpToolListDiff | null>(null);
+  const [toolProfileId, setToolProfileId] = useState<string>(
+    () => findToolProfile(options?.toolProfiles ?? TOOL_PROFILES, loadToolProfileId()).id
+  );
+  // Read by the audit log, which is written from callbacks of earlier renders
+  const toolProfileIdRef = useRef(toolProfileId);
+  toolProfileIdRef.current = toolProfileId;
   const [error, setError] = useState<AppError | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-  const [currentVoice, setCurrentVoice] = useState<VoiceOption>(DEFAULT_VOICE);
+  const [isUserTalking, setIsUserTalking] = useState(false);
+  const [wakeWordStatus, setWakeWordStatus] = useState<WakeWordStatus>({
+    state: 'untrained',
+    phrase: WAKE_WORD_SETTINGS.phrase,
+    samples: 0,
+    requiredSamples: WAKE_WORD_SETTINGS.enrollmentSamples
+  });
+  const [audioConfig, setAudioConfig] = useState<AudioConfig>(DEFAULT_AUDIO_CONFIG);
+
+  // Read by startConversation so a restart right after a change uses the new settings
+  const audioConfigRef = useRef<AudioConfig>(DEFAULT_AUDIO_CONFIG);
 
   // ✅ REMOVED: Strict deduplication - now allowing progressive transcription updates
   // Based on official Gemini Live API documentation from Context7
@@ -62,32 +181,119 @@ export const useGeminiLive = (options?: { onToolResponse?: (toolName: string, to
   }, []);
 
   // Use MCP client for tool execution
-  const { availableTools, executeToolCall, isConnected: mcpConnected } = useMcpClient();
+  const {
+    availableTools,
+    executeToolCall,
+    isConnected: mcpConnected,
+    servers: mcpServers,
+    connectionState: mcpConnectionState,
+    resources: mcpResources,
+    prompts: mcpPrompts,
+    readResource: readMcpResource,
+    getPrompt
+  } = useMcpClient({
+    maxCachedToolResults: toolResultCacheRef.current.maxEntries,
+    onToolListChanged: (server, diff) => {
+      const summary = [
+        diff.added.length > 0 && `${diff.added.length} nueva(s)`,
+        diff.removed.length > 0 && `${diff.removed.length} eliminada(s)`,
+        diff.changed.length > 0 && `${diff.changed.length} modificada(s)`
+      ].filter(Boolean).join(', ');
+      setMessages(prev => [...prev, {
+        id: `tools-changed-${server.id}-${Date.now()}`,
+        role: 'system',
+        content: `🔄 Herramientas de ${server.label} actualizadas: ${summary}`,
+        timestamp: new Date(),
+        type: 'status'
+      }]);
+    }
+  });
   
+  // Read by tool calls and session setup to find servers that are down
+  const mcpServersRef = useRef(mcpServers);
+  mcpServersRef.current = mcpServers;
+
   // Use audio state management
-  const { currentState, setState } = useAudioState();
+  const { currentState, dispatch } = useAudioState();
+  const currentStateRef = useRef(currentState);
+  currentStateRef.current = currentState;
 
   const responseQueue = useRef<any[]>([]);
-  const ai = useRef<GoogleGenAI | null>(null);
+  const transportRef = useRef<LiveTransport | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const audioWorkletNodeRef = useRef<AudioWorkletNode | null>(null);
   const isWebSocketOpen = useRef<boolean>(false);
-  const isSetupComplete = useRef<boolean>(false);
   const outputSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const nextStartTimeRef = useRef<number>(0);
 
   // ✅ FIX: Add refs for session and availableTools persistence (React closure fix)
-  const sessionRef = useRef<any>(null);
-  const availableToolsRef = useRef<any[]>([]);
+  const sessionRef = useRef<LiveTransportSession | null>(null);
+  const availableToolsRef = useRef<McpTool[]>([]);
+  // Tools declared to the open session; the Live API cannot change them mid-session
+  const declaredToolsRef = useRef<McpTool[]>([]);
+
+  // Latest resumable session handle; lets a restart keep the model-side conversation history
+  const resumptionHandleRef = useRef<string | null>(null);
+
+  // Incremented per connection so late callbacks from a closed session are ignored
+  const connectionIdRef = useRef<number>(0);
+
+  // Tool results that could not be sent because the connection dropped
+  const unsentToolResultsRef = useRef<FunctionResponse[]>([]);
+
+  // Read-only calls made while their MCP server was down, run when it reconnects
+  const queuedToolCallsRef = useRef<QueuedToolCall[]>([]);
+
+  // Latest user turn (voice transcript or typed), recorded with each audited tool call
+  const lastUserTurnRef = useRef<string | null>(null);
+
+  // Manual activity detection ('client-vad' / 'push-to-talk'): whether an activityStart is open,
+  // a push-to-talk release waiting for the worklet's last chunk, the detector and its pre-roll
+  const activityOpenRef = useRef<boolean>(false);
+  const activityEndPendingRef = useRef<boolean>(false);
+  const voiceActivityRef = useRef<VoiceActivityState>(INITIAL_VOICE_ACTIVITY);
+  const preRollChunksRef = useRef<CaptureChunk[]>([]);
+
+  // Wake-word mode: the recorded spotter (null until recorded), whether the user is recording
+  // samples and the ones recorded so far, whether the listening window is open, quiet time
+  // inside it, and the speech segment being checked
+  const wakeWordModelRef = useRef<WakeWordModel | null>(null);
+  const wakeWordEnrollingRef = useRef<boolean>(false);
+  const wakeWordSamplesRef = useRef<number[][][]>([]);
+  const wakeWordArmedRef = useRef<boolean>(false);
+  const listenIdleMsRef = useRef<number>(0);
+  const wakeWordSegmentRef = useRef<{ chunks: CaptureChunk[]; collectedMs: number; decided: boolean } | null>(null);
+
+  // Session usage for the limit warning; kept across reconnects of the same conversation
+  const sessionStartedAtRef = useRef<number | null>(null);
+  const contextTokensRef = useRef<number>(0);
+
+  // In-flight tool calls by id, and ids the server cancelled
+  const toolCallControllersRef = useRef<Map<string, AbortController>>(new Map());
+  const cancelledToolCallIdsRef = useRef<Set<string>>(new Set());
+
+  // Settles a paused write tool call; the oldest entry receives spoken answers
+  const confirmationResolversRef = useRef<Map<string, (status: ToolConfirmationStatus) => void>>(new Map());
+  const confirmationTranscriptRef = useRef<string>('');
+  // Spoken answers are only read once the confirmation prompt has been played
+  const confirmationListeningRef = useRef<boolean>(false);
+  const confirmationListenTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const reconnectAttemptsRef = useRef<number>(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Latest session-engine command runner, for callbacks created by earlier renders
+  const runCommandsRef = useRef<(commands: LiveSessionCommand[]) => void>(() => {});
 
   /**
-   * Initialize Google Generative AI client
+   * Initialize the Live transport (Gemini API, scripted replay or mock server)
    */
   useEffect(() => {
     try {
-      ai.current = new GoogleGenAI({ apiKey: getApiKey() });
+      transportRef.current = createLiveTransport();
+      console.log(`[Gemini Live] Using ${transportRef.current.kind} transport`);
     } catch (initError) {
       setError({
         type: 'API',
@@ -105,8 +311,56 @@ export const useGeminiLive = (options?: { onToolResponse?: (toolName: string, to
   }, [session]);
 
   useEffect(() => {
-    availableToolsRef.current = availableTools;
-  }, [availableTools]);
+    availableToolsRef.current = applyToolProfile(
+      availableTools,
+      findToolProfile(toolProfilesRef.current, toolProfileId),
+      toolConfirmationRef.current
+    );
+  }, [availableTools, toolProfileId]);
+
+  useEffect(() => {
+    const lastUserMessage = messages.filter(message => message.role === 'user').pop();
+    if (lastUserMessage) {
+      lastUserTurnRef.current = lastUserMessage.content;
+    }
+  }, [messages]);
+
+  /**
+   * Page the oldest messages out of the live list once it grows past the limit.
+   * Filtering by object identity keeps fragments appended to the last message intact.
+   */
+  useEffect(() => {
+    const overflow = selectMessagesToArchive(messages, TRANSCRIPT_ARCHIVE_SETTINGS);
+    if (overflow.length === 0) return;
+
+    console.log(`[Gemini Live] Archiving ${overflow.length} older messages`);
+    const archived = new Set(overflow);
+    setArchivedMessages(prev => [...prev, ...overflow]);
+    setMessages(prev => prev.filter(msg => !archived.has(msg)));
+  }, [messages]);
+
+  /**
+   * Recompute the session limit status from elapsed time and context usage
+   */
+  const refreshSessionLimit = useCallback(() => {
+    if (sessionStartedAtRef.current === null) {
+      setSessionLimit(null);
+      return;
+    }
+    setSessionLimit(getSessionLimitStatus(
+      Date.now() - sessionStartedAtRef.current,
+      contextTokensRef.current,
+      contextCompressionRef.current
+    ));
+  }, []);
+
+  useEffect(() => {
+    if (!isConnected) return;
+
+    refreshSessionLimit();
+    const timer = setInterval(refreshSessionLimit, 5000);
+    return () => clearInterval(timer);
+  }, [isConnected, refreshSessionLimit]);
 
   /**
    * Session lifecycle debugging - Monitor when session state changes
@@ -123,17 +377,8 @@ export const useGeminiLive = (options?: { onToolResponse?: (toolName: string, to
   }, [session]);
 
   /**
-   * PCM Audio encoding functions (from functional reference)
+   * PCM Audio decoding functions (from functional reference)
    */
-  const encode = useCallback((bytes: Uint8Array): string => {
-    let binary = '';
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  }, []);
-
   const decode = useCallback((base64: string): Uint8Array => {
     const binaryString = atob(base64);
     const len = binaryString.length;
@@ -144,27 +389,23 @@ export const useGeminiLive = (options?: { onToolResponse?: (toolName: string, to
     return bytes;
   }, []);
 
-  const createBlob = useCallback((data: Float32Array) => {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-      int16[i] = data[i] * 32768; // Convert Float32 to Int16
-    }
+  // The worklet already clamped and converted the chunk to Int16 PCM
+  const createBlob = useCallback((pcm: ArrayBuffer) => {
     return {
-      data: encode(new Uint8Array(int16.buffer)),
-      mimeType: 'audio/pcm;rate=16000',
+      data: encodeBase64(new Uint8Array(pcm)),
+      mimeType: `audio/pcm;rate=${LIVE_INPUT_SAMPLE_RATE}`,
     };
-  }, [encode]);
+  }, []);
 
   /**
    * Decode audio data for playback (from functional reference)
    */
-  const decodeAudioData = useCallback(async (
+  const decodeAudioData = useCallback((
     data: Uint8Array,
     ctx: AudioContext,
     sampleRate: number,
     numChannels: number,
-  ): Promise<AudioBuffer> => {
+  ): AudioBuffer => {
     const dataInt16 = new Int16Array(data.buffer);
     const frameCount = dataInt16.length / numChannels;
     const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
@@ -178,6 +419,69 @@ export const useGeminiLive = (options?: { onToolResponse?: (toolName: string, to
     return buffer;
   }, []);
 
+  /**
+   * Mark a manual activity (activityStart … activityEnd) as open or closed
+   */
+  const setActivityOpen = useCallback((open: boolean) => {
+    activityOpenRef.current = open;
+    setIsUserTalking(open);
+  }, []);
+
+  const updateWakeWordStatus = useCallback(() => {
+    setWakeWordStatus({
+      state: wakeWordEnrollingRef.current
+        ? 'enrolling'
+        : !wakeWordModelRef.current ? 'untrained' : wakeWordArmedRef.current ? 'armed' : 'disarmed',
+      phrase: WAKE_WORD_SETTINGS.phrase,
+      samples: wakeWordSamplesRef.current.length,
+      requiredSamples: WAKE_WORD_SETTINGS.enrollmentSamples
+    });
+  }, []);
+
+  /**
+   * Open or close the listening window that follows the wake word
+   */
+  const setWakeWordArmed = useCallback((armed: boolean, reason = `"${WAKE_WORD_SETTINGS.phrase}" detected`) => {
+    wakeWordArmedRef.current = armed;
+    listenIdleMsRef.current = 0;
+    console.log(armed
+      ? `[Wake Word] ${reason}, listening window open`
+      : '[Wake Word] Listening window closed');
+    updateWakeWordStatus();
+  }, [updateWakeWordStatus]);
+
+  /**
+   * Keep one enrollment utterance; the spotter is built once enough samples are recorded,
+   * which ends the enrollment
+   */
+  const recordWakeWordSample = useCallback((samples: Int16Array) => {
+    const trimmed = trimSilence(samples, CLIENT_VAD_SETTINGS.energyThresholdDb);
+    const durationMs = trimmed.length / LIVE_INPUT_SAMPLE_RATE * 1000;
+    if (durationMs < WAKE_WORD_SETTINGS.minSampleMs || durationMs > WAKE_WORD_SETTINGS.maxSampleMs) {
+      console.warn(`[Wake Word] Ignoring a ${Math.round(durationMs)} ms sample; say only "${WAKE_WORD_SETTINGS.phrase}"`);
+      return;
+    }
+
+    wakeWordSamplesRef.current = [...wakeWordSamplesRef.current, computeMfcc(trimmed)];
+    console.log(`[Wake Word] Sample ${wakeWordSamplesRef.current.length}/${WAKE_WORD_SETTINGS.enrollmentSamples} recorded`);
+
+    if (wakeWordSamplesRef.current.length >= WAKE_WORD_SETTINGS.enrollmentSamples) {
+      const model = buildWakeWordModel(wakeWordSamplesRef.current, WAKE_WORD_SETTINGS);
+      wakeWordModelRef.current = model;
+      wakeWordEnrollingRef.current = false;
+      wakeWordSamplesRef.current = [];
+      saveWakeWordModel(model);
+      console.log(`[Wake Word] Spotter ready (match threshold ${model.threshold.toFixed(2)})`);
+    }
+    updateWakeWordStatus();
+  }, [updateWakeWordStatus]);
+
+  // Samples recorded in an earlier visit
+  useEffect(() => {
+    wakeWordModelRef.current = loadWakeWordModel(WAKE_WORD_SETTINGS.phrase);
+    updateWakeWordStatus();
+  }, [updateWakeWordStatus]);
+
   /**
    * Start audio streaming using AudioWorklet (proper PCM implementation)
    */
@@ -191,14 +495,9 @@ export const useGeminiLive = (options?: { onToolResponse?: (toolName: string, to
       console.log('[Gemini Live] Setting up AudioWorklet-based audio streaming...');
       
       // Create dual AudioContext setup (like functional reference)
-      const inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: 16000
-      });
       const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
         sampleRate: 24000
       });
-      
-      inputAudioContextRef.current = inputAudioContext;
       outputAudioContextRef.current = outputAudioContext;
 
       // Get microphone stream
@@ -209,38 +508,181 @@ export const useGeminiLive = (options?: { onToolResponse?: (toolName: string, to
       mediaStreamRef.current = stream;
       console.log('[Gemini Live] Audio stream obtained');
 
+      // The browser may not honour 16 kHz; the worklet resamples from whatever rate the context got
+      const { context: inputAudioContext, source } = connectCaptureSource(stream, LIVE_INPUT_SAMPLE_RATE);
+      inputAudioContextRef.current = inputAudioContext;
+      console.log(`[Gemini Live] Input AudioContext at ${inputAudioContext.sampleRate} Hz${
+        inputAudioContext.sampleRate === LIVE_INPUT_SAMPLE_RATE ? '' : `, resampling to ${LIVE_INPUT_SAMPLE_RATE} Hz`
+      }`);
+
       // Load AudioWorklet processor
       console.log('[Gemini Live] Loading AudioWorklet processor...');
-      await inputAudioContext.audioWorklet.addModule('./audio-processor.js');
+      await inputAudioContext.audioWorklet.addModule(audioProcessorUrl);
       
-      // Create AudioWorkletNode
-      const audioWorkletNode = new AudioWorkletNode(inputAudioContext, 'audio-capture-processor');
+      // Create AudioWorkletNode; it posts one Int16 chunk per captureChunkMs instead of every 128 samples
+      const chunkMs = clampCaptureChunkMs(audioConfigRef.current.captureChunkMs);
+      const audioWorkletNode = new AudioWorkletNode(inputAudioContext, 'audio-capture-processor', {
+        processorOptions: { chunkMs, targetSampleRate: LIVE_INPUT_SAMPLE_RATE }
+      });
       audioWorkletNodeRef.current = audioWorkletNode;
 
-      // Handle audio data from worklet
-      audioWorkletNode.port.onmessage = (event) => {
-        if (event.data.type === 'audioData') {
-          const inputData = event.data.audioData; // Float32Array
-          const pcmBlob = createBlob(inputData);
+      const sendRealtime = (params: LiveSendRealtimeInputParameters) => {
+        try {
+          liveSession.sendRealtimeInput(params);
+        } catch (sendError) {
+          console.error('[Gemini Live] Failed to send PCM audio chunk:', sendError);
           
-          try {
-            liveSession.sendRealtimeInput({ media: pcmBlob });
-          } catch (sendError) {
-            console.error('[Gemini Live] Failed to send PCM audio chunk:', sendError);
-            
-            // Check if error indicates connection is closed
-            const errorMessage = (sendError as Error)?.message || String(sendError) || '';
-            if (errorMessage.includes('CLOSING') || errorMessage.includes('CLOSED') || 
-                errorMessage.includes('connection') || errorMessage.includes('WebSocket')) {
-              console.warn('[Gemini Live] Connection appears closed, stopping audio worklet');
-              stopAudioStreaming();
+          // Check if error indicates connection is closed
+          const errorMessage = (sendError as Error)?.message || String(sendError) || '';
+          if (errorMessage.includes('CLOSING') || errorMessage.includes('CLOSED') || 
+              errorMessage.includes('connection') || errorMessage.includes('WebSocket')) {
+            console.warn('[Gemini Live] Connection appears closed, stopping audio worklet');
+            stopAudioStreaming();
+          }
+        }
+      };
+
+      // Not speech (yet): keep the last preRollMs so the activity starts with the first syllable
+      const keepPreRoll = (chunk: CaptureChunk) => {
+        const preRoll = [...preRollChunksRef.current, chunk];
+        let preRollMs = preRoll.reduce((total, kept) => total + kept.durationMs, 0);
+        while (preRoll.length > 1 && preRollMs - preRoll[0].durationMs >= CLIENT_VAD_SETTINGS.preRollMs) {
+          preRollMs -= preRoll.shift()!.durationMs;
+        }
+        preRollChunksRef.current = preRoll;
+      };
+
+      // Wake word not heard yet: speech segments stay local unless they contain it
+      // (while the user records the wake word, each short segment becomes a sample instead)
+      const spotWakeWord = (chunk: CaptureChunk, event: 'start' | 'end' | null) => {
+        // Nothing recorded and not recording: no segment is kept or sent
+        if (!wakeWordEnrollingRef.current && !wakeWordModelRef.current) return;
+
+        let segment = wakeWordSegmentRef.current;
+        if (!segment) {
+          if (event !== 'start') {
+            keepPreRoll(chunk);
+            return;
+          }
+          segment = { chunks: preRollChunksRef.current, collectedMs: 0, decided: false };
+          preRollChunksRef.current = [];
+          wakeWordSegmentRef.current = segment;
+        }
+
+        const ended = event === 'end';
+        if (!segment.decided) {
+          segment.chunks.push(chunk);
+          segment.collectedMs += chunk.durationMs;
+        }
+
+        const model = wakeWordModelRef.current;
+        if (wakeWordEnrollingRef.current || !model) {
+          // Longer than a sample can be: not an enrollment utterance
+          if (segment.collectedMs > WAKE_WORD_SETTINGS.maxSampleMs + CLIENT_VAD_SETTINGS.hangoverMs) {
+            segment.decided = true;
+          }
+          if (ended) {
+            if (!segment.decided) recordWakeWordSample(concatPcm(segment.chunks.map(kept => kept.pcm)));
+            wakeWordSegmentRef.current = null;
+          }
+          return;
+        }
+
+        if (!segment.decided && (ended || segment.collectedMs >= WAKE_WORD_SETTINGS.decisionMs)) {
+          segment.decided = true;
+          const samples = trimSilence(concatPcm(segment.chunks.map(kept => kept.pcm)), CLIENT_VAD_SETTINGS.energyThresholdDb);
+          if (matchesWakeWord(model, computeMfcc(samples))) {
+            // Send the whole segment, wake word included, and keep streaming it if it goes on
+            setWakeWordArmed(true);
+            sendRealtime({ activityStart: {} });
+            segment.chunks.forEach(kept => sendRealtime({ media: kept.blob }));
+            if (ended) {
+              sendRealtime({ activityEnd: {} });
+            } else {
+              setActivityOpen(true);
             }
+            wakeWordSegmentRef.current = null;
+            return;
           }
         }
+
+        if (ended) {
+          wakeWordSegmentRef.current = null;
+        }
+      };
+
+      // Server VAD streams everything; the other modes only send audio inside an activity
+      const handleCaptureChunk = (pcm: ArrayBuffer) => {
+        const pcmBlob = createBlob(pcm);
+        const { inputMode } = audioConfigRef.current;
+
+        if (inputMode === 'server-vad') {
+          sendRealtime({ media: pcmBlob });
+          return;
+        }
+
+        if (inputMode === 'push-to-talk') {
+          // An activity stays open until the worklet confirms the flush after release
+          if (activityOpenRef.current) {
+            sendRealtime({ media: pcmBlob });
+          }
+          return;
+        }
+
+        // Client VAD, on its own or behind the wake word
+        const samples = new Int16Array(pcm);
+        const chunk: CaptureChunk = { pcm: samples, blob: pcmBlob, durationMs: samples.length / LIVE_INPUT_SAMPLE_RATE * 1000 };
+        const speech = isSpeechFrame(analyzePcmFrame(samples), CLIENT_VAD_SETTINGS);
+        const { state: voiceActivity, event } = updateVoiceActivity(voiceActivityRef.current, speech, chunk.durationMs, CLIENT_VAD_SETTINGS);
+        voiceActivityRef.current = voiceActivity;
+
+        if (inputMode === 'wake-word' && !wakeWordArmedRef.current && !activityOpenRef.current) {
+          spotWakeWord(chunk, event);
+          return;
+        }
+
+        if (event === 'start') {
+          sendRealtime({ activityStart: {} });
+          preRollChunksRef.current.forEach(kept => sendRealtime({ media: kept.blob }));
+          preRollChunksRef.current = [];
+          setActivityOpen(true);
+        }
+
+        if (!activityOpenRef.current) {
+          keepPreRoll(chunk);
+        } else {
+          sendRealtime({ media: pcmBlob });
+          if (event === 'end') {
+            sendRealtime({ activityEnd: {} });
+            setActivityOpen(false);
+          }
+        }
+
+        if (inputMode === 'wake-word' && wakeWordArmedRef.current) {
+          // The window closes once neither the user nor the assistant has said anything for listenWindowMs,
+          // but never while a confirmation waits for the spoken answer
+          const quiet = !activityOpenRef.current && currentStateRef.current === 'LISTENING'
+            && confirmationResolversRef.current.size === 0;
+          listenIdleMsRef.current = quiet ? listenIdleMsRef.current + chunk.durationMs : 0;
+          if (listenIdleMsRef.current >= WAKE_WORD_SETTINGS.listenWindowMs) {
+            setWakeWordArmed(false);
+          }
+        }
+      };
+
+      // Handle audio data from worklet
+      audioWorkletNode.port.onmessage = (event) => {
+        if (event.data.type === 'audioData') {
+          handleCaptureChunk(event.data.pcm as ArrayBuffer);
+        } else if (event.data.type === 'flushed' && activityEndPendingRef.current) {
+          // Push-to-talk released and the last partial chunk is sent: close the activity
+          activityEndPendingRef.current = false;
+          sendRealtime({ activityEnd: {} });
+          setActivityOpen(false);
+        }
       };
 
       // Connect audio pipeline
-      const source = inputAudioContext.createMediaStreamSource(stream);
       source.connect(audioWorkletNode);
       
       console.log('[Gemini Live] AudioWorklet audio streaming started');
@@ -253,7 +695,7 @@ export const useGeminiLive = (options?: { onToolResponse?: (toolName: string, to
         details: streamError
       });
     }
-  }, [createBlob]);
+  }, [createBlob, setActivityOpen, setWakeWordArmed, recordWakeWordSample]);
 
   /**
    * Stop audio streaming (AudioWorklet cleanup)
@@ -292,519 +734,1415 @@ export const useGeminiLive = (options?: { onToolResponse?: (toolName: string, to
     
     nextStartTimeRef.current = 0;
 
-    console.log('[Gemini Live] AudioWorklet audio streaming stopped');
-  }, []);
+    // Any open manual activity ends with the capture
+    activityOpenRef.current = false;
+    activityEndPendingRef.current = false;
+    voiceActivityRef.current = INITIAL_VOICE_ACTIVITY;
+    preRollChunksRef.current = [];
+    setIsUserTalking(false);
 
+    // The next session starts waiting for the wake word again; an unfinished recording is dropped
+    wakeWordArmedRef.current = false;
+    wakeWordEnrollingRef.current = false;
+    wakeWordSamplesRef.current = [];
+    wakeWordSegmentRef.current = null;
+    listenIdleMsRef.current = 0;
+    updateWakeWordStatus();
+
+    console.log('[Gemini Live] AudioWorklet audio streaming stopped');
+  }, [updateWakeWordStatus]);
 
   /**
-   * Start conversation with Gemini Live (updated with transcriptions)
+   * Append a transcription fragment, accumulating into the last voice message of the same speaker
    */
-  const startConversation = useCallback(async () => {
-    if (!ai.current) {
-      setError({
-        type: 'API',
-        message: 'Gemini AI client not initialized',
-        details: null
-      });
-      return;
-    }
+  const appendTranscript = useCallback((role: 'user' | 'assistant', text: string) => {
+    setMessages(prev => {
+      const lastMessage = prev[prev.length - 1];
 
-    // ✅ NUEVO: Logging de timing de conexiones
-    console.log('[DEBUG] Starting conversation with state:', {
-      mcpConnected: mcpConnected,
-      availableToolsCount: availableTools.length,
-      hasAiClient: !!ai.current,
-      timestamp: new Date().toISOString()
+      if (lastMessage && lastMessage.role === role && lastMessage.type === 'voice') {
+        return prev.map((msg, index) =>
+          index === prev.length - 1
+            ? { ...msg, content: msg.content + text, timestamp: new Date() }
+            : msg
+        );
+      }
+
+      // Create new message with the first fragment
+      return [...prev, {
+        id: `${role === 'user' ? 'input' : 'output'}-${Date.now()}`,
+        role,
+        content: text,
+        timestamp: new Date(),
+        type: 'voice'
+      }];
     });
+  }, []);
 
-    if (!mcpConnected) {
-      console.error('[Gemini Live] MCP not connected at conversation start:', {
-        mcpConnected: mcpConnected,
-        availableTools: availableTools.length,
-        timestamp: new Date().toISOString()
-      });
-      setError({
-        type: 'CONNECTION',
-        message: 'MCP server not connected. Please wait for connection.',
-        details: null
-      });
-      return;
-    }
+  /**
+   * Schedule a PCM audio chunk for gapless playback.
+   * Reports PLAYBACK_DRAINED once the last scheduled buffer has ended.
+   */
+  const playAudioChunk = useCallback((data: string) => {
+    const outputAudioContext = outputAudioContextRef.current;
 
     try {
-      setError(null);
-      setState('IDLE');
-
-      // ✅ REMOVED: No more deduplication tracking - using progressive updates
-      console.log('[Gemini Live] Starting conversation with progressive transcription updates');
-
-      console.log('[Gemini Live] Starting conversation...');
-
-      // Convert MCP tools to Gemini format
-      const geminiTools = convertMcpToolsToGemini(availableTools);
-      
-      console.log(`[Gemini Live] Configured with ${geminiTools.length} tools`);
-
-      // Request microphone permissions
-      try {
-        await navigator.mediaDevices.getUserMedia({ audio: true });
-        console.log('[Gemini Live] Microphone access granted');
-      } catch (micError) {
-        setError({
-          type: 'AUDIO',
-          message: 'Microphone access denied. Please allow microphone access to use voice features.',
-          details: micError
-        });
-        return;
+      if (!outputAudioContext) {
+        throw new Error('Output AudioContext not available');
       }
 
-      // Connect to real Gemini Live API with proper configuration
-      console.log('[Gemini Live] Connecting to Gemini Live API...');
-      
-      // ✅ NEW: Load system instruction from markdown file
-      console.log('[Gemini Live] Loading system instruction from markdown file...');
-      const systemInstructionText = await getValidatedSystemInstruction();
-      console.log('[Gemini Live] System instruction loaded:', systemInstructionText.substring(0, 100) + '...');
-      
-      const liveSession = await ai.current.live.connect({
-       model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-       // model: 'gemini-live-2.5-flash-preview',
-        config: {
-          responseModalities: ["AUDIO" as any],
-          systemInstruction: {
-            parts: [{
-              text: systemInstructionText  // ✅ Now loaded dynamically from .md file
-            }]
-          },
-          tools: geminiTools,
-          // ✅ CRITICAL FIX: Enable transcription configuration
-          inputAudioTranscription: {},   // Enable user voice transcription
-          outputAudioTranscription: {}   // Enable assistant voice transcription
-        },
-        callbacks: {
-          onopen: () => {
-            console.log('[DEBUG] WebSocket onopen - session state:', {
-              hasSession: !!sessionRef.current,
-              timestamp: new Date().toISOString()
-            });
-            console.log('[Gemini Live] WebSocket connection established');
-            isWebSocketOpen.current = true;
-            setIsConnected(true);
-            setState('LISTENING');
-          },
-          onmessage: async (e: any) => {
-            console.log('[DEBUG] WebSocket onmessage - session state:', {
-              hasSession: !!sessionRef.current,
-              messageType: Object.keys(e)[0],
-              timestamp: new Date().toISOString()
-            });
-            console.log('[Gemini Live] Received message:', e);
-            
-            // Handle different message types from LiveServerMessage
-            if (e.serverContent) {
-              console.log('[Gemini Live] Server content received');
-              
-              // Handle input transcriptions (user speaking) - PROGRESSIVE ACCUMULATION PATTERN
-              if (e.serverContent.inputTranscription) {
-                console.log('[Gemini Live] Input transcription:', e.serverContent.inputTranscription.text);
-                
-                // ✅ FIXED PATTERN: Accumulate fragments progressively instead of overwriting
-                const transcriptionText = e.serverContent.inputTranscription.text;
-                
-                if (transcriptionText.trim().length > 0) {
-                  setMessages(prev => {
-                    const lastMessage = prev[prev.length - 1];
-                    
-                    // If the last message is from user and is voice type, accumulate text
-                    if (lastMessage && lastMessage.role === 'user' && lastMessage.type === 'voice') {
-                      return prev.map((msg, index) => 
-                        index === prev.length - 1 
-                          ? { 
-                              ...msg, 
-                              content: msg.content + transcriptionText,  // ✅ ACCUMULATE fragments
-                              timestamp: new Date() 
-                            }
-                          : msg
-                      );
-                    } else {
-                      // Create new message with the first fragment
-                      return [...prev, {
-                        id: `input-${Date.now()}`,
-                        role: 'user',
-                        content: transcriptionText,  // ✅ First fragment
-                        timestamp: new Date(),
-                        type: 'voice'
-                      }];
-                    }
-                  });
-                  console.log('[Gemini Live] Accumulated user transcription:', transcriptionText);
-                }
-                
-                setState('LISTENING');
-              }
-              
-              // Handle output transcriptions (Gemini speaking) - PROGRESSIVE ACCUMULATION PATTERN
-              if (e.serverContent.outputTranscription) {
-                console.log('[Gemini Live] Output transcription:', e.serverContent.outputTranscription.text);
-                setState('SPEAKING');
-                
-                // ✅ FIXED PATTERN: Accumulate fragments progressively instead of overwriting
-                const transcriptionText = e.serverContent.outputTranscription.text;
-                
-                if (transcriptionText.trim().length > 0) {
-                  setMessages(prev => {
-                    const lastMessage = prev[prev.length - 1];
-                    
-                    // If the last message is from assistant and is voice type, accumulate text
-                    if (lastMessage && lastMessage.role === 'assistant' && lastMessage.type === 'voice') {
-                      return prev.map((msg, index) => 
-                        index === prev.length - 1 
-                          ? { 
-                              ...msg, 
-                              content: msg.content + transcriptionText,  // ✅ ACCUMULATE fragments
-                              timestamp: new Date() 
-                            }
-                          : msg
-                      );
-                    } else {
-                      // Create new message with the first fragment
-                      return [...prev, {
-                        id: `output-${Date.now()}`,
-                        role: 'assistant',
-                        content: transcriptionText,  // ✅ First fragment
-                        timestamp: new Date(),
-                        type: 'voice'
-                      }];
-                    }
-                  });
-                  console.log('[Gemini Live] Accumulated assistant transcription:', transcriptionText);
-                }
-              }
-
-              // Handle audio responses from Gemini
-              if (e.serverContent.modelTurn?.parts) {
-                for (const part of e.serverContent.modelTurn.parts) {
-                  if (part.inlineData?.data) {
-                    // Play audio response
-                    if (outputAudioContextRef.current) {
-                      try {
-                        nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContextRef.current.currentTime);
-                        const audioBuffer = await decodeAudioData(
-                          decode(part.inlineData.data),
-                          outputAudioContextRef.current,
-                          24000,
-                          1,
-                        );
-                        const source = outputAudioContextRef.current.createBufferSource();
-                        source.buffer = audioBuffer;
-                        source.connect(outputAudioContextRef.current.destination);
-                        source.addEventListener('ended', () => {
-                          outputSourcesRef.current.delete(source);
-                        });
-                        source.start(nextStartTimeRef.current);
-                        nextStartTimeRef.current += audioBuffer.duration;
-                        outputSourcesRef.current.add(source);
-                      } catch (audioError) {
-                        console.error('[Gemini Live] Failed to play audio response:', audioError);
-                      }
-                    }
-                  }
-                }
-              }
-              
-              // Return to listening after speaking
-              if (e.serverContent.turnComplete && !isProcessingTool.current) { //Gemini modified
-                console.log('[Gemini Live] Turn complete, returning to listening');
-                setTimeout(() => setState('LISTENING'), 1000);
-              }
-
-              // Handle interruptions
-              if (e.serverContent.interrupted) {
-                console.log('[Gemini Live] Audio interrupted, stopping playback');
-                outputSourcesRef.current.forEach(source => {
-                  source.stop();
-                  outputSourcesRef.current.delete(source);
-                });
-                nextStartTimeRef.current = 0;
-              }
-            } else if (e.toolCall) {
-              // ✅ PHASE 2: Inline tool processing (matching working MRE exactly)
-              console.log('[Gemini Live] Tool call received:', {
-                toolCall: e.toolCall,
-                sessionActive: !!liveSession,
-                mcpConnected: mcpConnected,
-                availableToolsCount: availableTools.length,
-                timestamp: new Date().toISOString()
-              });
-              
-              isProcessingTool.current = true;
-              console.log('[Gemini Live] Tool processing STARTED, flag set to true.');
-              setState('PROCESSING');
-
-              if (!liveSession || !mcpConnected) {
-                console.error('[Gemini Live] Cannot process tool calls: session or MCP not connected');
-                isProcessingTool.current = false;
-                setState('LISTENING');
-                return;
-              }
-
-              try {
-                // ✅ PHASE 2: Direct inline processing like working MRE
-                const functionResponses = [];
-                
-                for (const functionCall of e.toolCall.functionCalls) {
-                  console.log(`[Gemini Live] Processing tool call: ${functionCall.name}`);
-                  
-                  // ✅ NEW: Add system message for tool execution start
-                  const toolStartMessage: ChatMessage = {
-                    id: `tool-start-${Date.now()}`,
-                    role: 'system',
-                    content: `🔧 Ejecutando herramienta ${functionCall.name}...`,
-                    timestamp: new Date(),
-                    type: 'tool-start',
-                    toolName: functionCall.name
-                  };
-                  setMessages(prev => [...prev, toolStartMessage]);
-                  
-                  try {
-                    // Direct MCP call (simplified like MRE)
-                    const mcpResponse = await executeToolCall(functionCall);
-                    
-                    // Simple response format (matching MRE pattern) - using actual MCP data
-                    functionResponses.push({
-                      id: functionCall.id,
-                      name: functionCall.name,
-                      response: {
-                        result: mcpResponse.response || "Tool executed successfully",
-                        timestamp: new Date().toISOString(),
-                        source: functionCall.name
-                      }
-                    });
-                    
-                    console.log(`[Gemini Live] Tool ${functionCall.name} executed successfully`);
-                    console.log(`[Gemini Live] MCP Response data:`, mcpResponse.response);
-                    
-                    // ✅ NEW: Add system message for tool execution result
-                    const toolResultMessage: ChatMessage = {
-                      id: `tool-result-${Date.now()}`,
-                      role: 'system',
-                      content: `📊 Datos obtenidos de SAP: ${formatToolResult(mcpResponse.response, functionCall.name)}`,
-                      timestamp: new Date(),
-                      type: 'tool-result',
-                      toolName: functionCall.name,
-                      toolData: mcpResponse.response
-                    };
-                    setMessages(prev => [...prev, toolResultMessage]);
-                    
-                  } catch (toolError: any) {
-                    console.error(`[Gemini Live] Tool execution failed: ${functionCall.name}`, toolError);
-                    
-                    // ✅ NEW: Add system message for tool execution error
-                    const toolErrorMessage: ChatMessage = {
-                      id: `tool-error-${Date.now()}`,
-                      role: 'system',
-                      content: `❌ Error ejecutando ${functionCall.name}: ${toolError?.message || 'Error desconocido'}`,
-                      timestamp: new Date(),
-                      type: 'tool-error',
-                      toolName: functionCall.name
-                    };
-                    setMessages(prev => [...prev, toolErrorMessage]);
-                    
-                    // Simple error response (matching MRE pattern)
-                    functionResponses.push({
-                      id: functionCall.id,
-                      name: functionCall.name,
-                      response: {
-                        result: `Tool execution failed: ${toolError?.message || 'Unknown error'}`,
-                        timestamp: new Date().toISOString(),
-                        source: functionCall.name
-                      }
-                    });
-                  }
-                }
-
-                // ✅ PHASE 2: Direct send (no complex validation like MRE)
-                console.log('[Gemini Live] Sending tool responses to API:', {
-                  count: functionResponses.length,
-                  responses: functionResponses.map(r => ({ id: r.id, name: r.name, result: r.response })),
-                });
-                
-                await liveSession.sendToolResponse({ functionResponses });
-                console.log('[Gemini Live] Tool responses sent successfully to API');
-
-                // Fire A2UI generation for each successful tool response (non-blocking)
-                if (onToolResponseRef.current) {
-                  for (const fr of functionResponses) {
-                    if (fr.response?.result && !String(fr.response.result).startsWith('Tool execution failed')) {
-                      console.log(`[Gemini Live] Firing onToolResponse for ${fr.name}`);
-                      onToolResponseRef.current(fr.name, fr.response.result);
-                    }
-                  }
-                }
-                
-              } catch (error) {
-                console.error('[Gemini Live] Failed to process tool calls:', error);
-                setError({
-                  type: 'TOOL',
-                  message: 'Failed to process tool calls',
-                  details: error
-                });
-              }
-              
-              isProcessingTool.current = false;
-              console.log('[Gemini Live] Tool processing FINISHED, flag set to false.');
-              setState('LISTENING');
-            } else if (e.setupComplete) {
-              console.log('[DEBUG] Setup complete - session state:', {
-                hasSession: !!session,
-                sessionActive: !!session,
-                isSetupComplete: isSetupComplete.current,
-                timestamp: new Date().toISOString()
-              });
-              console.log('[Gemini Live] Setup complete');
-              isSetupComplete.current = true;
-            } else {
-              console.log('[Gemini Live] Unknown message type:', e);
-            }
-          },
-          onerror: (error: any) => {
-            console.log('[DEBUG] WebSocket onerror - session state:', {
-              hasSession: !!session,
-              error: error,
-              timestamp: new Date().toISOString()
-            });
-            console.error('[Gemini Live] WebSocket error:', error);
-            isWebSocketOpen.current = false;
-            setError({
-              type: 'CONNECTION',
-              message: 'Gemini Live connection error',
-              details: error
-            });
-            setState('IDLE');
-            stopAudioStreaming();
-          },
-          onclose: (event: any) => {
-            console.log('[DEBUG] WebSocket onclose - session state:', {
-              hasSession: !!session,
-              reason: event?.reason,
-              timestamp: new Date().toISOString()
-            });
-            console.log('[Gemini Live] WebSocket connection closed:', event?.reason || 'Unknown reason');
-            isWebSocketOpen.current = false;
-            setIsConnected(false);
-            setState('IDLE');
-            stopAudioStreaming();
-          }
+      nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContext.currentTime);
+      const audioBuffer = decodeAudioData(decode(data), outputAudioContext, 24000, 1);
+      const source = outputAudioContext.createBufferSource();
+      source.buffer = audioBuffer;
+      source.connect(outputAudioContext.destination);
+      source.addEventListener('ended', () => {
+        outputSourcesRef.current.delete(source);
+        if (outputSourcesRef.current.size === 0) {
+          runCommandsRef.current(dispatch({ type: 'PLAYBACK_DRAINED' }));
         }
       });
-
-      console.log('[Gemini Live] Successfully connected to Gemini Live API');
-      setSession(liveSession);
-
-      // Start audio streaming AFTER liveSession is available (fixes Temporal Dead Zone)
-      console.log('[Gemini Live] Starting AudioWorklet audio streaming...');
-      await startAudioStreaming(liveSession);
-
-    } catch (connectionError) {
-      console.error('[Gemini Live] Failed to start conversation:', connectionError);
-      setError({
-        type: 'CONNECTION',
-        message: 'Failed to connect to Gemini Live API',
-        details: connectionError
-      });
-      setState('IDLE');
+      source.start(nextStartTimeRef.current);
+      nextStartTimeRef.current += audioBuffer.duration;
+      outputSourcesRef.current.add(source);
+    } catch (audioError) {
+      console.error('[Gemini Live] Failed to play audio response:', audioError);
+      if (outputSourcesRef.current.size === 0) {
+        runCommandsRef.current(dispatch({ type: 'PLAYBACK_DRAINED' }));
+      }
     }
-  }, [ai, mcpConnected, availableTools, currentVoice, setState, startAudioStreaming, decodeAudioData, decode]);
+  }, [decode, decodeAudioData, dispatch]);
 
   /**
-   * End conversation
+   * Stop and discard all scheduled output audio
    */
-  const endConversation = useCallback(() => {
-    // 1. Signal audio stream end (official Gemini Live pattern)
-    if (session && isWebSocketOpen.current) {
-      try {
-        console.log('[Gemini Live] Signaling audio stream end...');
-        session.sendRealtimeInput({ audioStreamEnd: true });
-      } catch (signalError) {
-        console.warn('[Gemini Live] Failed to signal audio stream end:', signalError);
-      }
-    }
-    
-    // 2. Stop audio streaming
-    stopAudioStreaming();
-    
-    // 3. Close session
-    if (session) {
-      try {
-        session.close();
-        console.log('[Gemini Live] Conversation ended');
-      } catch (closeError) {
-        console.warn('[Gemini Live] Error closing session:', closeError);
-      }
-    }
-    
-    // 4. Reset state
-    setSession(null);
-    setIsConnected(false);
-    isWebSocketOpen.current = false;
-    isSetupComplete.current = false;
-    setState('IDLE');
-    responseQueue.current = [];
-  }, [session, setState, stopAudioStreaming]);
+  const stopPlayback = useCallback(() => {
+    console.log('[Gemini Live] Audio interrupted, stopping playback');
+    outputSourcesRef.current.forEach(source => source.stop());
+    outputSourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+  }, []);
 
   /**
-   * Send a text message (for testing purposes)
+   * Replay tool results whose sendToolResponse was lost with a dropped connection.
+   * The resumed handle predates the tool call, so the new session does not know the
+   * original call ids; the results are replayed as conversation context instead.
    */
-  const sendMessage = useCallback((message: string) => {
-    if (!session || !isConnected) {
-      console.warn('[Gemini Live] Cannot send message: session not connected');
-      return;
-    }
+  const replayUnsentToolResults = useCallback((liveSession: LiveTransportSession) => {
+    const results = unsentToolResultsRef.current;
+    if (results.length === 0) return;
+    unsentToolResultsRef.current = [];
 
+    console.log(`[Gemini Live] Replaying ${results.length} tool result(s) lost during reconnection`);
     try {
-      // Add user message to chat
-      const userMessage: ChatMessage = {
-        id: Date.now().toString(),
-        role: 'user',
-        content: message,
-        timestamp: new Date()
-      };
-      
-      setMessages(prev => [...prev, userMessage]);
-
-      // Send to Gemini Live
-      session.sendClientContent({
+      liveSession.sendClientContent({
         turns: [{
           role: 'user',
-          parts: [{ text: message }]
+          parts: [{
+            text: `Tool results obtained before the connection was resumed. Use them to answer the pending request: ${JSON.stringify(results.map(r => ({ name: r.name, result: r.response })))}`
+          }]
         }],
         turnComplete: true
       });
-
-      setState('PROCESSING');
-    } catch (sendError) {
-      console.error('[Gemini Live] Failed to send message:', sendError);
-      setError({
-        type: 'API',
-        message: 'Failed to send message',
-        details: sendError
-      });
+    } catch (replayError) {
+      console.error('[Gemini Live] Failed to replay tool results:', replayError);
+      unsentToolResultsRef.current = [...results, ...unsentToolResultsRef.current];
     }
-  }, [session, isConnected, setState]);
+  }, []);
 
   /**
-   * Change voice
+   * Send tool responses on the connection that requested them, or keep them for replay
    */
-  const setVoice = useCallback((voice: VoiceOption) => {
-    setCurrentVoice(voice);
-    console.log(`[Gemini Live] Voice changed to: ${voice}`);
-    
-    // If session is active, restart with new voice
-    if (isConnected) {
-      endConversation();
-      setTimeout(() => startConversation(), 1000);
+  const deliverToolResponses = useCallback((functionResponses: FunctionResponse[], connectionId: number) => {
+    console.log('[Gemini Live] Sending tool responses to API:', {
+      count: functionResponses.length,
+      responses: functionResponses.map(r => ({ id: r.id, name: r.name, result: r.response, scheduling: r.scheduling })),
+    });
+
+    const activeSession = sessionRef.current;
+    let sent = false;
+    if (activeSession && connectionId === connectionIdRef.current && isWebSocketOpen.current) {
+      try {
+        activeSession.sendToolResponse({ functionResponses });
+        sent = true;
+        console.log('[Gemini Live] Tool responses sent successfully to API');
+      } catch (sendError) {
+        console.warn('[Gemini Live] Failed to send tool responses, keeping them for replay:', sendError);
+      }
+    }
+
+    if (!sent) {
+      // The connection dropped while the tools ran; replay once a resumed session is open
+      unsentToolResultsRef.current = [...unsentToolResultsRef.current, ...functionResponses];
+      if (activeSession && connectionId !== connectionIdRef.current && isWebSocketOpen.current) {
+        replayUnsentToolResults(activeSession);
+      }
     }
-  }, [isConnected, endConversation, startConversation]);
+
+    // Fire A2UI generation for each successful tool response (non-blocking)
+    if (onToolResponseRef.current) {
+      for (const fr of functionResponses) {
+        if (fr.response?.result && !String(fr.response.result).startsWith('Tool execution failed')) {
+          console.log(`[Gemini Live] Firing onToolResponse for ${fr.name}`);
+          onToolResponseRef.current(fr.name, fr.response.result);
+        }
+      }
+    }
+  }, [replayUnsentToolResults]);
+
+  /**
+   * Record one tool call in the persistent audit log; storage errors never reach the call
+   */
+  const recordToolAudit = useCallback((
+    functionCall: FunctionCall,
+    tool: McpTool | undefined,
+    outcome: ToolAuditOutcome,
+    startedAt: number,
+    details: { result?: unknown; error?: string; cacheHit?: ToolCacheHit } = {}
+  ) => {
+    void appendToolAuditEntry({
+      id: createToolAuditId(),
+      timestamp: new Date().toISOString(),
+      user: getAuditUser(),
+      toolProfileId: toolProfileIdRef.current,
+      conversationId: sessionStartedAtRef.current === null ? null : `conversation-${sessionStartedAtRef.current}`,
+      toolName: functionCall.name,
+      mcpName: tool ? tool.mcpName ?? tool.name : functionCall.name,
+      serverId: tool?.serverId,
+      args: functionCall.args ?? {},
+      outcome,
+      resultBytes: measureResultBytes(details.result),
+      durationMs: Date.now() - startedAt,
+      cacheHit: details.cacheHit?.source,
+      error: details.error,
+      triggerTurn: lastUserTurnRef.current ?? undefined
+    });
+  }, []);
+
+  /**
+   * Run queued calls whose MCP server is back and hand the results to the model.
+   * Results that cannot be sent now are replayed when a resumed session opens.
+   */
+  const flushOfflineQueue = useCallback(async () => {
+    const ready = queuedToolCallsRef.current.filter(entry => isToolServerAvailable(entry.tool, mcpServersRef.current));
+    if (ready.length === 0) return;
+    queuedToolCallsRef.current = queuedToolCallsRef.current.filter(entry => !ready.includes(entry));
+    console.log(`[Gemini Live] Running ${ready.length} queued tool call(s)`);
+
+    const updateQueuedMessage = (messageId: string, changes: Partial<ChatMessage>) => {
+      setMessages(prev => prev.map(message => message.id === messageId ? { ...message, ...changes } : message));
+    };
+
+    const { maxConcurrency, timeoutMs } = toolExecutionRef.current;
+    const { maxAgeMs } = offlineQueueSettingsRef.current;
+    const results = await runWithConcurrency(ready, maxConcurrency, async ({ functionCall, tool, queuedAt, messageId }): Promise<FunctionResponse | null> => {
+      if (Date.now() - queuedAt > maxAgeMs) {
+        updateQueuedMessage(messageId, {
+          content: `⌛ ${functionCall.name} descartada: llevaba demasiado tiempo en cola`,
+          type: 'tool-error'
+        });
+        recordToolAudit(functionCall, tool, 'expired', queuedAt, { error: 'Dropped from the offline queue' });
+        return null;
+      }
+
+      updateQueuedMessage(messageId, { content: `🔧 Ejecutando herramienta en cola ${functionCall.name}...` });
+      const startedAt = Date.now();
+      try {
+        const mcpResponse = await executeToolCall(functionCall, {
+          tool,
+          timeoutMs,
+          cacheTtlMs: getToolCacheTtl(tool.mcpName ?? tool.name, tool, toolResultCacheRef.current, toolConfirmationRef.current)
+        });
+        const { result } = mcpResponse.response ?? {};
+        updateQueuedMessage(messageId, {
+          content: `📊 Datos obtenidos de SAP (en cola): ${formatToolResult(result, functionCall.name)}`,
+          type: 'tool-result',
+          toolData: result,
+          attachments: mcpResponse.attachments,
+          cacheHit: mcpResponse.cacheHit
+        });
+        const failed = isToolFailureResponse(mcpResponse.response);
+        recordToolAudit(functionCall, tool, failed ? 'error' : 'success', startedAt, {
+          result,
+          error: failed ? String(result) : undefined,
+          cacheHit: mcpResponse.cacheHit
+        });
+        return { id: functionCall.id, name: functionCall.name, response: mcpResponse.response };
+      } catch (queuedError) {
+        const errorMessage = queuedError instanceof Error ? queuedError.message : String(queuedError);
+        updateQueuedMessage(messageId, {
+          content: `❌ Error ejecutando ${functionCall.name} (en cola): ${errorMessage}`,
+          type: 'tool-error'
+        });
+        recordToolAudit(functionCall, tool, 'error', startedAt, { error: errorMessage });
+        return { id: functionCall.id, name: functionCall.name, response: { result: `Tool execution failed: ${errorMessage}` } };
+      }
+    });
+
+    const finished = results.filter((result): result is FunctionResponse => result !== null);
+    if (finished.length === 0) return;
+
+    const liveSession = sessionRef.current;
+    if (liveSession && isWebSocketOpen.current) {
+      try {
+        liveSession.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: buildQueuedResultsMessage(finished) }] }],
+          turnComplete: true
+        });
+      } catch (sendError) {
+        console.warn('[Gemini Live] Failed to send queued results, keeping them for replay:', sendError);
+        unsentToolResultsRef.current.push(...finished);
+      }
+    } else {
+      unsentToolResultsRef.current.push(...finished);
+    }
+
+    for (const response of finished) {
+      const result = response.response?.result;
+      if (result && !String(result).startsWith('Tool execution failed')) {
+        onToolResponseRef.current?.(response.name, result);
+      }
+    }
+  }, [executeToolCall, formatToolResult, recordToolAudit]);
+
+  /**
+   * Queued calls run as soon as the server they wait for reconnects
+   */
+  useEffect(() => {
+    if (queuedToolCallsRef.current.length > 0) {
+      void flushOfflineQueue();
+    }
+  }, [mcpServers, flushOfflineQueue]);
+
+  /**
+   * Settle a paused tool call from the chat card, the A2UI card or a spoken answer
+   */
+  const resolveToolConfirmation = useCallback((id: string, approved: boolean) => {
+    const resolve = confirmationResolversRef.current.get(id);
+    if (!resolve) {
+      console.warn(`[Gemini Live] No pending confirmation for ${id}`);
+      return;
+    }
+    resolve(approved ? 'approved' : 'rejected');
+  }, []);
+
+  /**
+   * Start reading spoken answers once Amy has finished playing the prompt and
+   * `answerDelayMs` has passed; earlier transcription belongs to the request itself
+   */
+  const listenForConfirmationAnswer = useCallback(() => {
+    if (confirmationListenTimerRef.current) {
+      clearTimeout(confirmationListenTimerRef.current);
+    }
+    confirmationListenTimerRef.current = setTimeout(() => {
+      confirmationListenTimerRef.current = null;
+      if (confirmationResolversRef.current.size === 0) return;
+      if (outputSourcesRef.current.size > 0) {
+        listenForConfirmationAnswer();
+        return;
+      }
+      confirmationTranscriptRef.current = '';
+      confirmationListeningRef.current = true;
+    }, toolConfirmationRef.current.answerDelayMs);
+  }, []);
+
+  /**
+   * Stop reading spoken answers until the next confirmation prompt
+   */
+  const stopListeningForConfirmation = useCallback(() => {
+    if (confirmationListenTimerRef.current) {
+      clearTimeout(confirmationListenTimerRef.current);
+      confirmationListenTimerRef.current = null;
+    }
+    confirmationListeningRef.current = false;
+    confirmationTranscriptRef.current = '';
+  }, []);
+
+  /**
+   * Pause a write tool call until the user approves or rejects it.
+   * Unanswered requests expire so the model is not left waiting forever.
+   */
+  const requestToolConfirmation = useCallback((functionCall: FunctionCall, signal: AbortSignal): Promise<ToolConfirmationStatus> => {
+    const confirmation: PendingToolConfirmation = {
+      id: functionCall.id,
+      toolName: functionCall.name,
+      args: functionCall.args,
+      requestedAt: new Date()
+    };
+
+    console.log(`[Gemini Live] Waiting for user confirmation: ${functionCall.name}`, functionCall.args);
+    if (confirmationResolversRef.current.size === 0) {
+      stopListeningForConfirmation();
+      listenForConfirmationAnswer();
+    }
+    // The answer must reach the model without repeating the wake word
+    if (audioConfigRef.current.inputMode === 'wake-word' && !wakeWordArmedRef.current) {
+      wakeWordSegmentRef.current = null;
+      setWakeWordArmed(true, `confirmation for ${functionCall.name} pending`);
+    }
+    setPendingConfirmations(prev => [...prev, confirmation]);
+    setMessages(prev => [...prev, {
+      id: `tool-confirmation-${Date.now()}-${functionCall.id}`,
+      role: 'system',
+      content: `⚠️ Amy quiere ejecutar ${functionCall.name}. Di "sí, confirmo" o "no", o usa los botones.`,
+      timestamp: new Date(),
+      type: 'tool-confirmation',
+      toolName: functionCall.name,
+      toolData: functionCall.args,
+      confirmation: { id: functionCall.id, status: 'pending' }
+    }]);
+    onConfirmationRequestedRef.current?.(confirmation);
+
+    return new Promise(resolve => {
+      const settle = (status: ToolConfirmationStatus) => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+        confirmationResolversRef.current.delete(functionCall.id);
+        // The next pending confirmation needs a new answer
+        confirmationTranscriptRef.current = '';
+        if (confirmationResolversRef.current.size === 0) {
+          stopListeningForConfirmation();
+        }
+
+        console.log(`[Gemini Live] Confirmation for ${functionCall.name}: ${status}`);
+        setPendingConfirmations(prev => prev.filter(pending => pending.id !== functionCall.id));
+        setMessages(prev => prev.map(message =>
+          message.confirmation?.id === functionCall.id
+            ? { ...message, confirmation: { id: functionCall.id, status } }
+            : message
+        ));
+        onConfirmationResolvedRef.current?.(functionCall.id, status);
+        resolve(status);
+      };
+      const onAbort = () => settle('cancelled');
+      const timer = setTimeout(() => settle('expired'), toolConfirmationRef.current.timeoutMs);
+
+      signal.addEventListener('abort', onAbort);
+      confirmationResolversRef.current.set(functionCall.id, settle);
+    });
+  }, [listenForConfirmationAnswer, setWakeWordArmed, stopListeningForConfirmation]);
+
+  /**
+   * Treat the user's speech as the answer to the oldest pending confirmation
+   */
+  const handleVoiceConfirmation = useCallback((text: string) => {
+    const [oldestId] = confirmationResolversRef.current.keys();
+    if (!oldestId || !confirmationListeningRef.current) return;
+
+    // Transcription arrives in fragments; judge the whole answer so far
+    confirmationTranscriptRef.current += text;
+    const approved = parseVoiceConfirmation(confirmationTranscriptRef.current);
+    if (approved !== null) {
+      confirmationTranscriptRef.current = '';
+      resolveToolConfirmation(oldestId, approved);
+    }
+  }, [resolveToolConfirmation]);
+
+  /**
+   * Execute one function call against MCP, posting its progress to the chat.
+   * Resolves to null when the server cancelled the call.
+   */
+  const runToolCall = useCallback(async (functionCall: FunctionCall, tool?: McpTool): Promise<FunctionResponse | null> => {
+    const requestedAt = Date.now();
+
+    // Cancelled by the server while still queued behind the concurrency limit
+    if (cancelledToolCallIdsRef.current.has(functionCall.id)) {
+      console.log(`[Gemini Live] Skipping cancelled tool call: ${functionCall.name}`);
+      recordToolAudit(functionCall, tool, 'cancelled', requestedAt);
+      return null;
+    }
+
+    // Denied by the active tool profile, or a name the model made up
+    if (!tool) {
+      console.warn(`[Gemini Live] Refusing tool outside the active profile: ${functionCall.name}`);
+      recordToolAudit(functionCall, tool, 'refused', requestedAt, { error: 'Not available in the active tool profile' });
+      setMessages(prev => [...prev, {
+        id: `tool-error-${Date.now()}-${functionCall.id}`,
+        role: 'system',
+        content: `❌ La herramienta ${functionCall.name} no está disponible en este perfil`,
+        timestamp: new Date(),
+        type: 'tool-error',
+        toolName: functionCall.name
+      }]);
+      return {
+        id: functionCall.id,
+        name: functionCall.name,
+        response: {
+          result: `Tool execution failed: ${functionCall.name} is not available. Only use the declared tools.`,
+          timestamp: new Date().toISOString(),
+          source: functionCall.name
+        }
+      };
+    }
+
+    const mcpName = tool.mcpName ?? tool.name;
+
+    // Degraded mode: the owning server is down, so answer at once and queue read-only calls
+    if (!isToolServerAvailable(tool, mcpServersRef.current)) {
+      const serverLabel = mcpServersRef.current.find(server => server.id === tool.serverId)?.label ?? 'MCP';
+      const queueSettings = offlineQueueSettingsRef.current;
+      const queued = queueSettings.enabled
+        && queuedToolCallsRef.current.length < queueSettings.maxQueued
+        && getToolConfirmationPolicy(mcpName, tool, toolConfirmationRef.current) === 'auto';
+      const messageId = `tool-queued-${Date.now()}-${functionCall.id}`;
+
+      console.warn(`[Gemini Live] ${serverLabel} unavailable for ${functionCall.name}${queued ? ', queued' : ''}`);
+      if (queued) {
+        queuedToolCallsRef.current.push({ functionCall, tool, queuedAt: Date.now(), messageId });
+      }
+      recordToolAudit(functionCall, tool, queued ? 'queued' : 'unavailable', requestedAt, {
+        error: `${serverLabel} unavailable`
+      });
+      setMessages(prev => [...prev, {
+        id: messageId,
+        role: 'system',
+        content: queued
+          ? `⏳ ${functionCall.name} en cola: ${serverLabel} no está disponible, se ejecutará cuando vuelva`
+          : `🔌 ${functionCall.name} no se ejecutó: ${serverLabel} no está disponible`,
+        timestamp: new Date(),
+        type: queued ? 'tool-queued' : 'tool-error',
+        toolName: functionCall.name
+      }]);
+      return formatServiceUnavailableResponse(functionCall, serverLabel, queued);
+    }
+
+    const nonBlocking = isNonBlockingTool(tool);
+    console.log(`[Gemini Live] Processing ${nonBlocking ? 'non-blocking ' : ''}tool call: ${functionCall.name}`);
+
+    const controller = new AbortController();
+    toolCallControllersRef.current.set(functionCall.id, controller);
+
+    const confirmationPolicy = getToolConfirmationPolicy(mcpName, tool, toolConfirmationRef.current);
+    if (confirmationPolicy === 'confirm') {
+      const status = await requestToolConfirmation(functionCall, controller.signal);
+      if (status === 'cancelled') {
+        toolCallControllersRef.current.delete(functionCall.id);
+        recordToolAudit(functionCall, tool, 'cancelled', requestedAt);
+        return null;
+      }
+      if (status !== 'approved') {
+        toolCallControllersRef.current.delete(functionCall.id);
+        recordToolAudit(functionCall, tool, status === 'expired' ? 'expired' : 'rejected', requestedAt);
+        setMessages(prev => [...prev, {
+          id: `tool-rejected-${Date.now()}-${functionCall.id}`,
+          role: 'system',
+          content: status === 'expired'
+            ? `⌛ Confirmación de ${functionCall.name} expirada; no se ejecutó`
+            : `🚫 Ejecución de ${functionCall.name} rechazada por el usuario`,
+          timestamp: new Date(),
+          type: 'tool-error',
+          toolName: functionCall.name
+        }]);
+        return {
+          id: functionCall.id,
+          name: functionCall.name,
+          response: {
+            result: status === 'expired'
+              ? `The user did not confirm ${functionCall.name} in time, so it was not executed. Ask the user whether to try again.`
+              : `The user rejected ${functionCall.name}, so it was not executed. Do not retry unless the user asks for it again.`,
+            timestamp: new Date().toISOString(),
+            source: functionCall.name
+          }
+        };
+      }
+    }
+
+    const toolStartMessage: ChatMessage = {
+      id: `tool-start-${Date.now()}-${functionCall.id}`,
+      role: 'system',
+      content: nonBlocking
+        ? `🔧 Ejecutando herramienta ${functionCall.name} en segundo plano...`
+        : `🔧 Ejecutando herramienta ${functionCall.name}...`,
+      timestamp: new Date(),
+      type: 'tool-start',
+      toolName: functionCall.name,
+      toolProgress: { logs: [] }
+    };
+    setMessages(prev => [...prev, toolStartMessage]);
+
+    // Progress and server logs update the tool-start message in place
+    const updateToolProgress = (update: (current: ToolProgressState) => ToolProgressState) => {
+      setMessages(prev => prev.map(message => message.id === toolStartMessage.id
+        ? { ...message, toolProgress: update(message.toolProgress ?? { logs: [] }) }
+        : message));
+    };
+    let latestPercent: number | undefined;
+    const handleProgress = (progress: ToolProgressUpdate) => {
+      if (controller.signal.aborted) return;
+      if (progress.progress !== undefined && progress.total) {
+        latestPercent = Math.min(100, Math.round((progress.progress / progress.total) * 100));
+      }
+      const { progressLogLines } = toolExecutionRef.current;
+      updateToolProgress(current => ({
+        ...current,
+        percent: latestPercent,
+        message: progress.message ?? current.message,
+        logs: progress.log ? [...current.logs, progress.log].slice(-progressLogLines) : current.logs
+      }));
+    };
+
+    // A slow call gets one spoken "still working" note so the user is not left in silence
+    const { stillWorkingUpdateMs } = toolExecutionRef.current;
+    const stillWorkingTimer = stillWorkingUpdateMs === null ? null : setTimeout(() => {
+      if (controller.signal.aborted || !isWebSocketOpen.current) return;
+      console.log(`[Gemini Live] ${functionCall.name} still running, asking for a spoken update`);
+      sessionRef.current?.sendClientContent({
+        turns: [{
+          role: 'user',
+          parts: [{
+            text: `[Estado de herramienta] ${functionCall.name} sigue en ejecución${latestPercent !== undefined ? ` (${latestPercent}%)` : ''}. Di al usuario en una frase breve que sigues trabajando en ello, sin inventar resultados.`
+          }]
+        }],
+        turnComplete: true
+      });
+    }, stillWorkingUpdateMs);
+
+    // Scheduling tells the model when to bring up a background result
+    const scheduling = nonBlocking ? { scheduling: getToolResponseScheduling(tool) } : {};
+
+    const startedAt = Date.now();
+    try {
+      const mcpResponse = await executeToolCall(functionCall, {
+        tool,
+        signal: controller.signal,
+        timeoutMs: toolExecutionRef.current.timeoutMs,
+        onProgress: handleProgress,
+        // Read-only results may be reused; a write makes the server's cached results stale
+        cacheTtlMs: getToolCacheTtl(mcpName, tool, toolResultCacheRef.current, toolConfirmationRef.current),
+        invalidatesCache: confirmationPolicy === 'confirm'
+      });
+
+      // A cancellation that raced the response: the model no longer wants it
+      if (controller.signal.aborted) {
+        recordToolAudit(functionCall, tool, 'cancelled', startedAt);
+        return null;
+      }
+
+      // Rejected before reaching SAP; the structured error goes back so the model can retry
+      if (mcpResponse.response?.error?.code === 'INVALID_ARGUMENTS') {
+        recordToolAudit(functionCall, tool, 'invalid-arguments', startedAt, { error: mcpResponse.response.result });
+        setMessages(prev => [...prev, {
+          id: `tool-error-${Date.now()}-${functionCall.id}`,
+          role: 'system',
+          content: `⚠️ Argumentos inválidos para ${functionCall.name}: ${mcpResponse.response.error.issues
+            .map((issue: { path: string; message: string }) => `${issue.path || '/'} ${issue.message}`)
+            .join('; ')}`,
+          timestamp: new Date(),
+          type: 'tool-error',
+          toolName: functionCall.name
+        }]);
+        return {
+          id: functionCall.id,
+          name: functionCall.name,
+          response: mcpResponse.response,
+          ...scheduling
+        };
+      }
+
+      console.log(`[Gemini Live] Tool ${functionCall.name} executed successfully`);
+      console.log(`[Gemini Live] MCP Response data:`, mcpResponse.response);
+
+      // The structured data goes to the model and A2UI; attachments stay in the chat
+      const { result, ...resultDetails } = mcpResponse.response ?? {};
+
+      const toolResultMessage: ChatMessage = {
+        id: `tool-result-${Date.now()}-${functionCall.id}`,
+        role: 'system',
+        content: `📊 Datos obtenidos de SAP: ${formatToolResult(result, functionCall.name)}`,
+        timestamp: new Date(),
+        type: 'tool-result',
+        toolName: functionCall.name,
+        toolData: result,
+        attachments: mcpResponse.attachments,
+        cacheHit: mcpResponse.cacheHit
+      };
+      setMessages(prev => [...prev, toolResultMessage]);
+
+      const failed = isToolFailureResponse(mcpResponse.response);
+      recordToolAudit(functionCall, tool, failed ? 'error' : 'success', startedAt, {
+        result,
+        error: failed ? String(result) : undefined,
+        cacheHit: mcpResponse.cacheHit
+      });
+
+      return {
+        id: functionCall.id,
+        name: functionCall.name,
+        response: {
+          result: result ?? "Tool executed successfully",
+          ...resultDetails,
+          // Lets the model say the figures are from a moment ago
+          ...(mcpResponse.cacheHit?.source === 'cache' && { cachedAt: mcpResponse.cacheHit.cachedAt.toISOString() }),
+          timestamp: new Date().toISOString(),
+          source: functionCall.name
+        },
+        ...scheduling
+      };
+
+    } catch (toolError: any) {
+      if (controller.signal.aborted) {
+        recordToolAudit(functionCall, tool, 'cancelled', startedAt);
+        return null;
+      }
+
+      console.error(`[Gemini Live] Tool execution failed: ${functionCall.name}`, toolError);
+      recordToolAudit(functionCall, tool, 'error', startedAt, { error: toolError?.message || 'Unknown error' });
+
+      const toolErrorMessage: ChatMessage = {
+        id: `tool-error-${Date.now()}-${functionCall.id}`,
+        role: 'system',
+        content: `❌ Error ejecutando ${functionCall.name}: ${toolError?.message || 'Error desconocido'}`,
+        timestamp: new Date(),
+        type: 'tool-error',
+        toolName: functionCall.name
+      };
+      setMessages(prev => [...prev, toolErrorMessage]);
+
+      return {
+        id: functionCall.id,
+        name: functionCall.name,
+        response: {
+          result: `Tool execution failed: ${toolError?.message || 'Unknown error'}`,
+          timestamp: new Date().toISOString(),
+          source: functionCall.name
+        },
+        ...scheduling
+      };
+    } finally {
+      toolCallControllersRef.current.delete(functionCall.id);
+      if (stillWorkingTimer) clearTimeout(stillWorkingTimer);
+      updateToolProgress(current => ({ ...current, finishedAt: new Date() }));
+    }
+  }, [executeToolCall, formatToolResult, requestToolConfirmation, recordToolAudit]);
+
+  /**
+   * Execute the model's function calls against MCP and send the responses back.
+   * Blocking calls are answered together; non-blocking calls are answered as each finishes.
+   */
+  const handleToolCalls = useCallback(async (functionCalls: FunctionCall[]) => {
+    const liveSession = sessionRef.current;
+    const connectionId = connectionIdRef.current;
+
+    console.log('[Gemini Live] Tool call received:', {
+      functionCalls,
+      sessionActive: !!liveSession,
+      mcpConnected: mcpConnected,
+      availableToolsCount: availableTools.length,
+      timestamp: new Date().toISOString()
+    });
+
+    const findTool = (name: string) => availableToolsRef.current.find(tool => tool.name === name);
+    const isBackground = (call: FunctionCall) => {
+      const tool = findTool(call.name);
+      return !!tool && isNonBlockingTool(tool);
+    };
+    const backgroundCalls = functionCalls.filter(isBackground);
+    const blockingCalls = functionCalls.filter(call => !isBackground(call));
+
+    try {
+      // MCP being down is handled per call (degraded mode), only the session is required
+      if (!liveSession) {
+        console.error('[Gemini Live] Cannot process tool calls: session not connected');
+        return;
+      }
+
+      const { maxConcurrency } = toolExecutionRef.current;
+
+      // Background calls must not hold back the answers the model is waiting for
+      if (backgroundCalls.length > 0) {
+        void runWithConcurrency(backgroundCalls, maxConcurrency, async (functionCall) => {
+          try {
+            const response = await runToolCall(functionCall, findTool(functionCall.name));
+            if (response && !cancelledToolCallIdsRef.current.has(response.id)) {
+              deliverToolResponses([response], connectionId);
+            }
+          } finally {
+            cancelledToolCallIdsRef.current.delete(functionCall.id);
+          }
+        }).catch((backgroundError) => {
+          console.error('[Gemini Live] Background tool calls failed:', backgroundError);
+        });
+      }
+
+      const results = await runWithConcurrency(blockingCalls, maxConcurrency, (functionCall) =>
+        runToolCall(functionCall, findTool(functionCall.name))
+      );
+
+      // Responses for cancelled calls are dropped; the server has discarded those ids
+      const functionResponses = results.filter((result): result is FunctionResponse =>
+        result !== null && !cancelledToolCallIdsRef.current.has(result.id)
+      );
+
+      if (functionResponses.length > 0) {
+        deliverToolResponses(functionResponses, connectionId);
+      }
+
+    } catch (error) {
+      console.error('[Gemini Live] Failed to process tool calls:', error);
+      setError({
+        type: 'TOOL',
+        message: 'Failed to process tool calls',
+        details: error
+      });
+    } finally {
+      const blockingIds = blockingCalls.map(call => call.id);
+      blockingIds.forEach(id => cancelledToolCallIdsRef.current.delete(id));
+      console.log('[Gemini Live] Tool processing FINISHED');
+      runCommandsRef.current(dispatch({ type: 'TOOL_CALLS_SETTLED', ids: blockingIds }));
+    }
+  }, [mcpConnected, availableTools.length, runToolCall, deliverToolResponses, dispatch]);
+
+  /**
+   * Tear down the active connection and audio without touching the session engine
+   */
+  const teardownSession = useCallback(() => {
+    const activeSession = sessionRef.current;
+
+    // Ignore the close/error callbacks of the session we are tearing down
+    connectionIdRef.current += 1;
+
+    // 1. Signal audio stream end (official Gemini Live pattern); with automatic
+    //    detection disabled the server expects the open activity to be closed instead
+    if (activeSession && isWebSocketOpen.current) {
+      try {
+        if (audioConfigRef.current.inputMode === 'server-vad') {
+          console.log('[Gemini Live] Signaling audio stream end...');
+          activeSession.sendRealtimeInput({ audioStreamEnd: true });
+        } else if (activityOpenRef.current) {
+          console.log('[Gemini Live] Closing open voice activity...');
+          activeSession.sendRealtimeInput({ activityEnd: {} });
+        }
+      } catch (signalError) {
+        console.warn('[Gemini Live] Failed to signal audio stream end:', signalError);
+      }
+    }
+    
+    // 2. Stop audio streaming
+    stopAudioStreaming();
+    
+    // 3. Close session
+    if (activeSession) {
+      try {
+        activeSession.close();
+        console.log('[Gemini Live] Session closed');
+      } catch (closeError) {
+        console.warn('[Gemini Live] Error closing session:', closeError);
+      }
+    }
+
+    sessionRef.current = null;
+    isWebSocketOpen.current = false;
+  }, [stopAudioStreaming]);
+
+  /**
+   * Open a Live session with the current tools, speech settings and resumption handle.
+   * Throws when the connection cannot be established.
+   */
+  const openSession = useCallback(async () => {
+    const transport = transportRef.current;
+    if (!transport) {
+      throw new Error('Gemini Live transport not initialized');
+    }
+
+    // Convert MCP tools to Gemini format
+    declaredToolsRef.current = availableToolsRef.current;
+    setPendingToolUpdate(null);
+    const geminiTools = convertMcpToolsToGemini(availableToolsRef.current);
+    console.log(`[Gemini Live] Configured with ${geminiTools.length} tools`);
+
+    // Connect to real Gemini Live API with proper configuration
+    console.log('[Gemini Live] Connecting to Gemini Live API...');
+    
+    // ✅ NEW: Load system instruction from markdown file
+    console.log('[Gemini Live] Loading system instruction from markdown file...');
+    // Degraded mode: tell the model up front which services are down, and which of them
+    // have no tools declared because they were never reached (their tools arrive once they are back)
+    const unavailableServers = mcpServersRef.current
+      .filter(server => server.status === 'error' || server.status === 'disconnected');
+    const serversWithoutTools = unavailableServers
+      .filter(server => !availableToolsRef.current.some(tool => tool.serverId === server.id))
+      .map(server => server.label);
+    const systemInstructionText = await getValidatedSystemInstruction()
+      + (unavailableServers.length > 0
+        ? buildDegradedModeInstruction(unavailableServers.map(server => server.label), serversWithoutTools)
+        : '')
+      + (audioConfigRef.current.inputMode === 'wake-word' ? buildWakeWordInstruction(WAKE_WORD_SETTINGS.phrase) : '');
+    console.log('[Gemini Live] System instruction loaded:', systemInstructionText.substring(0, 100) + '...');
+
+    const speechConfig = buildSpeechConfig(audioConfigRef.current);
+    const resumptionHandle = resumptionHandleRef.current;
+    console.log('[Gemini Live] Speech config:', speechConfig, resumptionHandle ? '(resuming previous session)' : '');
+
+    const connectionId = ++connectionIdRef.current;
+    const isCurrentConnection = () => connectionId === connectionIdRef.current;
+
+    const liveSession = await transport.connect({
+      model: GEMINI_LIVE_MODEL,
+      config: {
+        responseModalities: ["AUDIO" as any],
+        systemInstruction: {
+          parts: [{
+            text: systemInstructionText  // ✅ Now loaded dynamically from .md file
+          }]
+        },
+        tools: geminiTools,
+        speechConfig,
+        ...(audioConfigRef.current.enableAffectiveDialog && supportsAffectiveDialog(GEMINI_LIVE_MODEL) && {
+          enableAffectiveDialog: true
+        }),
+        sessionResumption: resumptionHandle ? { handle: resumptionHandle } : {},
+        contextWindowCompression: buildContextWindowCompression(contextCompressionRef.current),
+        // Client VAD and push-to-talk mark turns with activityStart/activityEnd themselves
+        ...(audioConfigRef.current.inputMode !== 'server-vad' && {
+          realtimeInputConfig: { automaticActivityDetection: { disabled: true } }
+        }),
+        // ✅ CRITICAL FIX: Enable transcription configuration
+        inputAudioTranscription: {},   // Enable user voice transcription
+        outputAudioTranscription: {}   // Enable assistant voice transcription
+      },
+      callbacks: {
+        onopen: () => {
+          if (!isCurrentConnection()) return;
+          console.log('[DEBUG] WebSocket onopen - session state:', {
+            hasSession: !!sessionRef.current,
+            timestamp: new Date().toISOString()
+          });
+          console.log('[Gemini Live] WebSocket connection established');
+          isWebSocketOpen.current = true;
+          setIsConnected(true);
+          runCommandsRef.current(dispatch({ type: 'CONNECTED' }));
+        },
+        onmessage: (e: LiveServerPayload) => {
+          if (!isCurrentConnection()) return;
+          console.log('[Gemini Live] Received message:', e);
+
+          if (e.setupComplete) {
+            reconnectAttemptsRef.current = 0;
+          }
+
+          const events = mapServerMessageToEvents(e, name =>
+            availableToolsRef.current.some(tool => tool.name === name && isNonBlockingTool(tool))
+          );
+          if (events.length === 0) {
+            console.log('[Gemini Live] Unknown message type:', e);
+          }
+
+          for (const event of events) {
+            runCommandsRef.current(dispatch(event));
+          }
+        },
+        onerror: (error: unknown) => {
+          if (!isCurrentConnection()) return;
+          console.error('[Gemini Live] WebSocket error:', error);
+          isWebSocketOpen.current = false;
+          runCommandsRef.current(dispatch({ type: 'CONNECTION_LOST', reason: 'WebSocket error' }));
+        },
+        onclose: (event) => {
+          if (!isCurrentConnection()) return;
+          console.log('[Gemini Live] WebSocket connection closed:', event?.reason || 'Unknown reason');
+          isWebSocketOpen.current = false;
+          setIsConnected(false);
+          runCommandsRef.current(dispatch({ type: 'CONNECTION_LOST', reason: event?.reason }));
+        }
+      }
+    });
+
+    if (!isCurrentConnection()) {
+      // Superseded (ended or replaced) while the connection was being established
+      liveSession.close();
+      return;
+    }
+
+    console.log('[Gemini Live] Successfully connected to Gemini Live API');
+    sessionRef.current = liveSession;
+    setSession(liveSession);
+
+    // Start audio streaming AFTER liveSession is available (fixes Temporal Dead Zone)
+    console.log('[Gemini Live] Starting AudioWorklet audio streaming...');
+    await startAudioStreaming(liveSession);
+
+    replayUnsentToolResults(liveSession);
+  }, [dispatch, startAudioStreaming, replayUnsentToolResults]);
+
+  /**
+   * Reconnect after a dropped socket (backoff) or a goAway (immediately),
+   * resuming the conversation with the latest session handle
+   */
+  const scheduleReconnect = useCallback((reason: 'connection-lost' | 'go-away') => {
+    if (reconnectTimerRef.current) return;
+
+    const attempt = ++reconnectAttemptsRef.current;
+    if (attempt > LIVE_RECONNECT_POLICY.maxAttempts) {
+      console.error('[Gemini Live] Max reconnection attempts reached');
+      reconnectAttemptsRef.current = 0;
+      teardownSession();
+      setSession(null);
+      setIsConnected(false);
+      runCommandsRef.current(dispatch({
+        type: 'RECONNECT_FAILED',
+        error: {
+          type: 'CONNECTION',
+          message: 'Lost connection to Gemini Live and could not reconnect. Please start the conversation again.',
+          details: { attempts: LIVE_RECONNECT_POLICY.maxAttempts }
+        }
+      }));
+      return;
+    }
+
+    const delay = reason === 'go-away' && attempt === 1 ? 0 : getBackoffDelay(attempt, LIVE_RECONNECT_POLICY);
+    console.log(`[Gemini Live] Reconnecting (${reason}) in ${delay}ms, attempt ${attempt}/${LIVE_RECONNECT_POLICY.maxAttempts}`, {
+      resumable: !!resumptionHandleRef.current
+    });
+
+    reconnectTimerRef.current = setTimeout(async () => {
+      reconnectTimerRef.current = null;
+      teardownSession();
+      setIsConnected(false);
+
+      try {
+        await openSession();
+      } catch (reconnectError) {
+        console.warn('[Gemini Live] Reconnection attempt failed:', reconnectError);
+        scheduleReconnect('connection-lost');
+      }
+    }, delay);
+  }, [dispatch, teardownSession, openSession]);
+
+  /**
+   * Abort in-flight tool calls the server cancelled (e.g. the user interrupted Amy)
+   */
+  const cancelToolCalls = useCallback((ids: string[]) => {
+    for (const id of ids) {
+      cancelledToolCallIdsRef.current.add(id);
+      const controller = toolCallControllersRef.current.get(id);
+      if (controller) {
+        console.log(`[Gemini Live] Cancelling tool call ${id}`);
+        controller.abort(new DOMException('Tool call cancelled by server', 'AbortError'));
+      }
+    }
+
+    setMessages(prev => [...prev, {
+      id: `tool-cancel-${Date.now()}`,
+      role: 'system',
+      content: `⏹️ ${ids.length === 1 ? 'Herramienta cancelada' : `${ids.length} herramientas canceladas`} por interrupción`,
+      timestamp: new Date(),
+      type: 'status'
+    }]);
+  }, []);
+
+  /**
+   * Execute the side effects requested by the session engine
+   */
+  const runCommands = useCallback((commands: LiveSessionCommand[]) => {
+    for (const command of commands) {
+      switch (command.type) {
+        case 'APPEND_TRANSCRIPT':
+          appendTranscript(command.role, command.text);
+          if (command.role === 'user') {
+            handleVoiceConfirmation(command.text);
+          }
+          break;
+        case 'PLAY_AUDIO':
+          playAudioChunk(command.data);
+          break;
+        case 'STOP_PLAYBACK':
+          stopPlayback();
+          break;
+        case 'EXECUTE_TOOLS':
+          void handleToolCalls(command.functionCalls);
+          break;
+        case 'CANCEL_TOOLS':
+          cancelToolCalls(command.ids);
+          break;
+        case 'STOP_AUDIO_STREAMING':
+          stopAudioStreaming();
+          break;
+        case 'STORE_RESUMPTION_HANDLE':
+          resumptionHandleRef.current = command.handle;
+          break;
+        case 'RECONNECT':
+          scheduleReconnect(command.reason);
+          break;
+        case 'CANCEL_RECONNECT':
+          if (reconnectTimerRef.current) {
+            clearTimeout(reconnectTimerRef.current);
+            reconnectTimerRef.current = null;
+          }
+          reconnectAttemptsRef.current = 0;
+          break;
+        case 'RECORD_USAGE':
+          contextTokensRef.current = command.contextTokens;
+          refreshSessionLimit();
+          break;
+        case 'REPORT_ERROR':
+          setError(command.error);
+          break;
+      }
+    }
+  }, [appendTranscript, handleVoiceConfirmation, playAudioChunk, stopPlayback, handleToolCalls, cancelToolCalls, stopAudioStreaming, scheduleReconnect, refreshSessionLimit]);
+
+  runCommandsRef.current = runCommands;
+
+  /**
+   * Start conversation with Gemini Live (updated with transcriptions)
+   */
+  const startConversation = useCallback(async () => {
+    if (!transportRef.current) {
+      setError({
+        type: 'API',
+        message: 'Gemini Live transport not initialized',
+        details: null
+      });
+      return;
+    }
+
+    // ✅ NUEVO: Logging de timing de conexiones
+    console.log('[DEBUG] Starting conversation with state:', {
+      mcpConnected: mcpConnected,
+      availableToolsCount: availableTools.length,
+      transport: transportRef.current.kind,
+      timestamp: new Date().toISOString()
+    });
+
+    // Degraded mode: the voice session starts anyway and tool calls report the outage
+    if (!mcpConnected) {
+      console.warn('[Gemini Live] MCP not connected at conversation start, starting in degraded mode:', {
+        mcpConnected: mcpConnected,
+        availableTools: availableTools.length,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    try {
+      setError(null);
+      runCommandsRef.current(dispatch({ type: 'RESET' }));
+
+      console.log('[Gemini Live] Starting conversation...');
+
+      // Request microphone permissions
+      try {
+        await navigator.mediaDevices.getUserMedia({ audio: true });
+        console.log('[Gemini Live] Microphone access granted');
+      } catch (micError) {
+        setError({
+          type: 'AUDIO',
+          message: 'Microphone access denied. Please allow microphone access to use voice features.',
+          details: micError
+        });
+        return;
+      }
+
+      // A resumed conversation keeps counting from its original start
+      if (!resumptionHandleRef.current) {
+        sessionStartedAtRef.current = Date.now();
+        contextTokensRef.current = 0;
+      }
+
+      await openSession();
+
+    } catch (connectionError) {
+      console.error('[Gemini Live] Failed to start conversation:', connectionError);
+      setError({
+        type: 'CONNECTION',
+        message: 'Failed to connect to Gemini Live API',
+        details: connectionError
+      });
+      runCommandsRef.current(dispatch({ type: 'RESET' }));
+    }
+  }, [mcpConnected, availableTools.length, dispatch, openSession]);
+
+  /**
+   * Close the active session without forgetting the resumption handle
+   */
+  const closeSession = useCallback(() => {
+    teardownSession();
+
+    sessionRef.current = null;
+    setSession(null);
+    setIsConnected(false);
+    // RESET also cancels a pending reconnect
+    runCommandsRef.current(dispatch({ type: 'RESET' }));
+    responseQueue.current = [];
+  }, [dispatch, teardownSession]);
+
+  /**
+   * End conversation
+   */
+  const endConversation = useCallback(() => {
+    closeSession();
+    // Paused write calls and queued calls die with the conversation
+    confirmationResolversRef.current.forEach(settle => settle('cancelled'));
+    const droppedMessageIds = new Set(queuedToolCallsRef.current.map(entry => entry.messageId));
+    queuedToolCallsRef.current.forEach(({ functionCall, tool, queuedAt }) =>
+      recordToolAudit(functionCall, tool, 'cancelled', queuedAt, { error: 'Conversation ended while queued' }));
+    queuedToolCallsRef.current = [];
+    if (droppedMessageIds.size > 0) {
+      setMessages(prev => prev.map(message => droppedMessageIds.has(message.id)
+        ? { ...message, content: `⏹️ ${message.toolName} cancelada al terminar la conversación`, type: 'tool-error' }
+        : message));
+    }
+    // The next Start begins a fresh conversation; cancellations for ids that never ran are forgotten too
+    cancelledToolCallIdsRef.current.clear();
+    resumptionHandleRef.current = null;
+    unsentToolResultsRef.current = [];
+    sessionStartedAtRef.current = null;
+    setSessionLimit(null);
+    console.log('[Gemini Live] Conversation ended');
+  }, [closeSession, recordToolAudit]);
+
+  /**
+   * Send a text message (for testing purposes)
+   */
+  const sendMessage = useCallback((message: string) => {
+    if (!session || !isConnected) {
+      console.warn('[Gemini Live] Cannot send message: session not connected');
+      return;
+    }
+
+    try {
+      // Add user message to chat
+      const userMessage: ChatMessage = {
+        id: Date.now().toString(),
+        role: 'user',
+        content: message,
+        timestamp: new Date()
+      };
+      
+      setMessages(prev => [...prev, userMessage]);
+
+      // Send to Gemini Live
+      session.sendClientContent({
+        turns: [{
+          role: 'user',
+          parts: [{ text: message }]
+        }],
+        turnComplete: true
+      });
+
+      runCommandsRef.current(dispatch({ type: 'TEXT_SENT' }));
+    } catch (sendError) {
+      console.error('[Gemini Live] Failed to send message:', sendError);
+      setError({
+        type: 'API',
+        message: 'Failed to send message',
+        details: sendError
+      });
+    }
+  }, [session, isConnected, dispatch]);
+
+  /**
+   * Add an MCP resource to the model's context; turnComplete stays false so
+   * Amy does not answer until the user speaks
+   */
+  const attachResource = useCallback(async (resource: McpResource) => {
+    if (!sessionRef.current || !isWebSocketOpen.current) {
+      console.warn('[Gemini Live] Cannot attach resource: session not connected');
+      return;
+    }
+
+    try {
+      const contents = await readMcpResource(resource);
+      const parts = buildResourceContextParts(resource, contents, MCP_RESOURCE_MAX_CHARS);
+      if (parts.length === 0) {
+        throw new Error(`Resource ${resource.uri} has no content that can be attached`);
+      }
+
+      // The session may have closed while the resource was read
+      sessionRef.current?.sendClientContent({
+        turns: [{ role: 'user', parts }],
+        turnComplete: false
+      });
+
+      setMessages(prev => [...prev, {
+        id: `resource-${Date.now()}`,
+        role: 'system',
+        content: `📎 Recurso adjuntado al contexto: ${resource.title ?? resource.name}`,
+        timestamp: new Date(),
+        type: 'status'
+      }]);
+    } catch (attachError) {
+      console.error('[Gemini Live] Failed to attach resource:', attachError);
+      setError({
+        type: 'TOOL',
+        message: `Failed to attach resource ${resource.name}`,
+        details: attachError
+      });
+    }
+  }, [readMcpResource]);
+
+  /**
+   * Start a conversation turn from an MCP prompt
+   */
+  const startPrompt = useCallback(async (prompt: McpPrompt, args: Record<string, string>) => {
+    if (!sessionRef.current || !isWebSocketOpen.current) {
+      console.warn('[Gemini Live] Cannot start prompt: session not connected');
+      return;
+    }
+
+    try {
+      const promptMessages = await getPrompt(prompt, args);
+      if (promptMessages.length === 0) {
+        throw new Error(`Prompt ${prompt.name} returned no text messages`);
+      }
+
+      sessionRef.current?.sendClientContent({
+        turns: promptMessagesToTurns(promptMessages),
+        turnComplete: true
+      });
+
+      setMessages(prev => [...prev, ...promptMessages.map((message, index): ChatMessage => ({
+        id: `prompt-${Date.now()}-${index}`,
+        role: message.role,
+        content: message.text,
+        timestamp: new Date()
+      }))]);
+      runCommandsRef.current(dispatch({ type: 'TEXT_SENT' }));
+    } catch (promptError) {
+      console.error('[Gemini Live] Failed to start prompt:', promptError);
+      setError({
+        type: 'TOOL',
+        message: `Failed to start prompt ${prompt.name}`,
+        details: promptError
+      });
+    }
+  }, [getPrompt, dispatch]);
+
+  /**
+   * Update speech settings; an active session is restarted and resumed so the
+   * model keeps the conversation history
+   */
+  const updateAudioConfig = useCallback((changes: Partial<AudioConfig>) => {
+    audioConfigRef.current = { ...audioConfigRef.current, ...changes };
+    setAudioConfig(audioConfigRef.current);
+    console.log('[Gemini Live] Audio config changed:', changes);
+
+    if (isWebSocketOpen.current) {
+      if (!resumptionHandleRef.current) {
+        console.warn('[Gemini Live] No resumable handle yet, restarting without conversation history');
+      }
+      closeSession();
+      void startConversation();
+    }
+  }, [closeSession, startConversation]);
+
+  /**
+   * Press or release push-to-talk. Releasing flushes the worklet first so the
+   * activity only ends after the last partial chunk has been sent.
+   */
+  const setPushToTalk = useCallback((active: boolean) => {
+    const activeSession = sessionRef.current;
+    if (audioConfigRef.current.inputMode !== 'push-to-talk' || !activeSession || !isWebSocketOpen.current) return;
+
+    try {
+      if (active) {
+        if (activityEndPendingRef.current) {
+          // Pressed again before the flush came back: keep the same activity going
+          activityEndPendingRef.current = false;
+          setIsUserTalking(true);
+          return;
+        }
+        if (activityOpenRef.current) return;
+        activeSession.sendRealtimeInput({ activityStart: {} });
+        setActivityOpen(true);
+        return;
+      }
+
+      if (!activityOpenRef.current || activityEndPendingRef.current) return;
+      const workletNode = audioWorkletNodeRef.current;
+      if (workletNode) {
+        activityEndPendingRef.current = true;
+        setIsUserTalking(false);
+        workletNode.port.postMessage({ type: 'flush' });
+      } else {
+        activeSession.sendRealtimeInput({ activityEnd: {} });
+        setActivityOpen(false);
+      }
+    } catch (signalError) {
+      console.warn('[Gemini Live] Failed to signal push-to-talk activity:', signalError);
+    }
+  }, [setActivityOpen]);
+
+  /**
+   * Start or cancel recording the wake word. Only utterances made while recording become
+   * samples; the current spotter stays in use until the new one is complete.
+   * An activity already open ends normally.
+   */
+  const setWakeWordEnrolling = useCallback((active: boolean) => {
+    wakeWordEnrollingRef.current = active;
+    wakeWordSamplesRef.current = [];
+    wakeWordSegmentRef.current = null;
+    if (active) {
+      wakeWordArmedRef.current = false;
+    }
+    console.log(active
+      ? `[Wake Word] Recording ${WAKE_WORD_SETTINGS.enrollmentSamples} samples of "${WAKE_WORD_SETTINGS.phrase}"`
+      : '[Wake Word] Recording cancelled');
+    updateWakeWordStatus();
+  }, [updateWakeWordStatus]);
+
+  /**
+   * Switch the tool profile; an open session restarts so the model sees the new declarations
+   */
+  const setToolProfile = useCallback((profileId: string) => {
+    const profile = findToolProfile(toolProfilesRef.current, profileId);
+    setToolProfileId(profile.id);
+    saveToolProfileId(profile.id);
+
+    availableToolsRef.current = applyToolProfile(availableTools, profile, toolConfirmationRef.current);
+    console.log(`[Gemini Live] Tool profile "${profile.id}" exposes ${availableToolsRef.current.length} of ${availableTools.length} tools`);
+
+    if (isWebSocketOpen.current) {
+      closeSession();
+      void startConversation();
+    }
+  }, [availableTools, closeSession, startConversation]);
+
+  /**
+   * Restart the open session, resuming it, so the model gets the refreshed MCP tool declarations
+   */
+  const applyToolUpdate = useCallback(() => {
+    setPendingToolUpdate(null);
+    if (isWebSocketOpen.current) {
+      console.log('[Gemini Live] Restarting session with the updated tool list');
+      closeSession();
+      void startConversation();
+    }
+  }, [closeSession, startConversation]);
+
+  /**
+   * Compare the tools the open session was given with the current MCP tool list.
+   * Closed sessions pick the new list up when they open.
+   */
+  useEffect(() => {
+    if (!isWebSocketOpen.current) {
+      setPendingToolUpdate(null);
+      return;
+    }
+
+    const diff = diffToolLists(declaredToolsRef.current, availableToolsRef.current);
+    if (isEmptyToolListDiff(diff)) {
+      setPendingToolUpdate(null);
+      return;
+    }
+
+    // Restarting mid tool call or without a resumption handle would lose work, so ask instead
+    const canRestartNow = toolListRefreshRef.current === 'restart'
+      && !!resumptionHandleRef.current
+      && toolCallControllersRef.current.size === 0
+      && confirmationResolversRef.current.size === 0;
+    if (canRestartNow) {
+      applyToolUpdate();
+    } else {
+      console.log('[Gemini Live] Tool list changed during the session:', diff);
+      setPendingToolUpdate(diff);
+    }
+  }, [availableTools, toolProfileId, applyToolUpdate]);
+
+  /**
+   * Change voice
+   */
+  const setVoice = useCallback((voice: VoiceOption) => {
+    updateAudioConfig({ voiceName: voice });
+  }, [updateAudioConfig]);
 
   /**
    * Cleanup on unmount
@@ -833,6 +2171,27 @@ export const useGeminiLive = (options?: { onToolResponse?: (toolName: string, to
     startConversation,
     endConversation,
     sendMessage,
-    setVoice
+    setVoice,
+    audioConfig,
+    updateAudioConfig,
+    isUserTalking,
+    setPushToTalk,
+    wakeWord: audioConfig.inputMode === 'wake-word' ? wakeWordStatus : null,
+    setWakeWordEnrolling,
+    archivedMessages,
+    sessionLimit,
+    pendingConfirmations,
+    resolveToolConfirmation,
+    toolProfileId,
+    setToolProfile,
+    mcpServers,
+    mcpConnectionState,
+    pendingToolUpdate,
+    applyToolUpdate,
+    mcpResources,
+    mcpPrompts,
+    readMcpResource,
+    attachResource,
+    startPrompt
   };
 };
@@ -1,256 +1,763 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  LoggingMessageNotificationSchema,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
 import type { 
+  UseMcpClientOptions,
   UseMcpClientReturn, 
   McpTool, 
   AppError, 
   FunctionCall, 
-  FunctionResponse 
+  FunctionResponse,
+  ToolCallOptions,
+  ToolProgressUpdate,
+  ToolCacheHit,
+  McpServerConfig,
+  McpServerState,
+  McpResource,
+  McpResourceContent,
+  McpPrompt,
+  McpPromptMessage
 } from '../types';
-import { getMcpServerUrl } from '../utils/audioConfig';
+import { DEFAULT_TOOL_RESULT_CACHE, getMcpServers, MCP_HEALTH_CHECK, MCP_RECONNECT_POLICY } from '../utils/audioConfig';
+import { getBackoffDelay } from '../utils/backoff';
+import {
+  buildToolRegistry,
+  diffToolLists,
+  getMcpConnectionState,
+  isEmptyToolListDiff,
+  loadLastKnownTools,
+  saveLastKnownTools
+} from '../utils/mcpRegistry';
+import { buildMcpTransportOptions, consumeOAuthCallback, isMcpAuthError } from '../utils/mcpAuth';
+import { validateToolArguments } from '../utils/toolArgumentValidator';
+import { awaitWithSignal, buildToolCacheKey } from '../utils/toolResultCache';
+import {
+  processMcpResourcesResponse,
+  processMcpResourceContents,
+  processMcpPromptsResponse,
+  processMcpPromptMessages
+} from '../utils/mcpResources';
 import { 
   processMcpToolsResponse, 
   processToolExecutionResponse, 
   formatToolResponseForGemini,
   extractMcpError,
-  logToolExecution
+  logToolExecution,
+  describeAttachmentsForModel
 } from '../utils/mcpToolConverter';
 
 /**
- * Custom hook for managing MCP client connection and tool execution
+ * Custom hook for managing MCP client connections and tool execution.
+ * Keeps a registry of MCP servers; their tools are merged under
+ * namespaced names and each call is routed to the server that owns it.
+ * Tool lists are re-fetched when a server announces tools/list_changed.
+ * Each connection is pinged; failed or lost connections are re-initialised
+ * with exponential backoff.
  */
-export const useMcpClient = (): UseMcpClientReturn => {
-  const [client, setClient] = useState<Client | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const [availableTools, setAvailableTools] = useState<McpTool[]>([]);
+export const useMcpClient = (options?: UseMcpClientOptions): UseMcpClientReturn => {
+  const onToolListChangedRef = useRef(options?.onToolListChanged);
+  onToolListChangedRef.current = options?.onToolListChanged;
+  const maxCachedResultsRef = useRef(options?.maxCachedToolResults ?? DEFAULT_TOOL_RESULT_CACHE.maxEntries);
+  maxCachedResultsRef.current = options?.maxCachedToolResults ?? DEFAULT_TOOL_RESULT_CACHE.maxEntries;
+
+  const [servers, setServers] = useState<McpServerState[]>([]);
+  const [toolsByServer, setToolsByServer] = useState<Record<string, McpTool[]>>({});
+  const [resourcesByServer, setResourcesByServer] = useState<Record<string, McpResource[]>>({});
+  const [promptsByServer, setPromptsByServer] = useState<Record<string, McpPrompt[]>>({});
   const [error, setError] = useState<AppError | null>(null);
-  
-  const connectionAttempts = useRef(0);
-  const isConnecting = useRef(false);
-  const maxRetries = 3;
+
+  // Clients live in a ref so tool calls always route to the current connection
+  const clientsRef = useRef<Map<string, Client>>(new Map());
+  const serverConfigsRef = useRef<McpServerConfig[]>([]);
+  const connectionAttempts = useRef<Map<string, number>>(new Map());
+  const connectingServers = useRef<Set<string>>(new Set());
+  // Latest listing per server, to diff against when the server announces a change
+  const toolsByServerRef = useRef<Record<string, McpTool[]>>({});
+  // Serialises refreshes so a burst of notifications cannot apply an older listing last
+  const toolRefreshes = useRef<Map<string, Promise<void>>>(new Map());
+  // Progress callbacks of the calls running on each server; server log lines go to all of them
+  const toolLogListeners = useRef<Map<string, Set<(update: ToolProgressUpdate) => void>>>(new Map());
+  const reconnectTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  const healthCheckTimers = useRef<Map<string, ReturnType<typeof setInterval>>>(new Map());
+  // Bumped by disconnect so connections that finish afterwards are dropped
+  const lifecycleRef = useRef<number>(0);
+  // Latest connectServer, for retries scheduled by earlier renders
+  const connectServerRef = useRef<(config: McpServerConfig) => Promise<void>>(async () => {});
+  // Successful read-only results by server, tool and canonical arguments; Map order is insertion order
+  const toolResultCache = useRef<Map<string, { response: FunctionResponse; serverId: string; cachedAt: number }>>(new Map());
+  // Calls still running, so an identical call joins them instead of hitting the server again
+  const inFlightToolCalls = useRef<Map<string, Promise<{ response: FunctionResponse; succeeded: boolean }>>>(new Map());
+
+  const updateServer = useCallback((id: string, changes: Partial<McpServerState>) => {
+    setServers(prev => prev.map(server => server.id === id ? { ...server, ...changes } : server));
+  }, []);
+
+  const storeToolResult = useCallback((key: string, serverId: string, response: FunctionResponse) => {
+    const cache = toolResultCache.current;
+    cache.delete(key);
+    cache.set(key, { response, serverId, cachedAt: Date.now() });
+    // Evict the oldest entries
+    for (const oldestKey of cache.keys()) {
+      if (cache.size <= maxCachedResultsRef.current) break;
+      cache.delete(oldestKey);
+    }
+  }, []);
+
+  const invalidateCachedResults = useCallback((serverId: string) => {
+    toolResultCache.current.forEach((entry, key) => {
+      if (entry.serverId === serverId) {
+        toolResultCache.current.delete(key);
+      }
+    });
+  }, []);
+
+  const setServerTools = useCallback((serverId: string, tools: McpTool[]) => {
+    toolsByServerRef.current = { ...toolsByServerRef.current, [serverId]: tools };
+    setToolsByServer(toolsByServerRef.current);
+    updateServer(serverId, { toolCount: tools.length });
+    saveLastKnownTools(serverId, tools);
+  }, [updateServer]);
 
   /**
-   * Connect to MCP server and discover available tools
+   * Re-list a server's tools after tools/list_changed and report what changed
    */
-  const connect = useCallback(async () => {
+  const refreshServerTools = useCallback((config: McpServerConfig, mcpClient: Client): Promise<void> => {
+    const previousRefresh = toolRefreshes.current.get(config.id) ?? Promise.resolve();
+    const refresh = previousRefresh.then(async () => {
+      // The server may have been disconnected while queued
+      if (clientsRef.current.get(config.id) !== mcpClient) return;
+
+      try {
+        const tools = processMcpToolsResponse(await mcpClient.listTools());
+        const diff = diffToolLists(toolsByServerRef.current[config.id] ?? [], tools);
+        if (isEmptyToolListDiff(diff)) {
+          console.log(`[MCP] ${config.label} tool list unchanged`);
+          return;
+        }
+
+        console.log(`[MCP] ${config.label} tool list changed:`, diff);
+        setServerTools(config.id, tools);
+        onToolListChangedRef.current?.(config, diff);
+      } catch (refreshError) {
+        console.warn(`[MCP] Failed to refresh ${config.label} tools:`, refreshError);
+      }
+    });
+
+    toolRefreshes.current.set(config.id, refresh);
+    return refresh;
+  }, [setServerTools]);
+
+  /**
+   * List the resources of a server that offers them
+   */
+  const discoverResources = useCallback(async (config: McpServerConfig, mcpClient: Client): Promise<void> => {
+    if (!mcpClient.getServerCapabilities()?.resources) return;
+    try {
+      const resources = processMcpResourcesResponse(await mcpClient.listResources(), config.id);
+      console.log(`[MCP] Discovered ${resources.length} ${config.label} resources`);
+      setResourcesByServer(prev => ({ ...prev, [config.id]: resources }));
+    } catch (resourcesError) {
+      console.warn(`[MCP] Failed to list ${config.label} resources:`, resourcesError);
+    }
+  }, []);
+
+  /**
+   * List the prompts of a server that offers them
+   */
+  const discoverPrompts = useCallback(async (config: McpServerConfig, mcpClient: Client): Promise<void> => {
+    if (!mcpClient.getServerCapabilities()?.prompts) return;
+    try {
+      const prompts = processMcpPromptsResponse(await mcpClient.listPrompts(), config.id);
+      console.log(`[MCP] Discovered ${prompts.length} ${config.label} prompts`);
+      setPromptsByServer(prev => ({ ...prev, [config.id]: prompts }));
+    } catch (promptsError) {
+      console.warn(`[MCP] Failed to list ${config.label} prompts:`, promptsError);
+    }
+  }, []);
+
+  const stopHealthCheck = useCallback((serverId: string) => {
+    const timer = healthCheckTimers.current.get(serverId);
+    if (timer) {
+      clearInterval(timer);
+      healthCheckTimers.current.delete(serverId);
+    }
+  }, []);
+
+  /**
+   * Schedule the next connection attempt with exponential backoff and jitter
+   */
+  const scheduleReconnect = useCallback((config: McpServerConfig) => {
+    const attempt = connectionAttempts.current.get(config.id) ?? 0;
+    if (attempt >= MCP_RECONNECT_POLICY.maxAttempts) {
+      console.error(`[MCP] Max connection attempts reached for ${config.label}`);
+      updateServer(config.id, { nextRetryAt: undefined });
+      return;
+    }
+
+    const delay = getBackoffDelay(attempt, MCP_RECONNECT_POLICY);
+    console.log(`[MCP] Retrying ${config.label} connection in ${delay}ms (attempt ${attempt + 1}/${MCP_RECONNECT_POLICY.maxAttempts})`);
+    updateServer(config.id, { nextRetryAt: new Date(Date.now() + delay) });
+
+    clearTimeout(reconnectTimers.current.get(config.id));
+    reconnectTimers.current.set(config.id, setTimeout(() => {
+      reconnectTimers.current.delete(config.id);
+      void connectServerRef.current(config);
+    }, delay));
+  }, [updateServer]);
+
+  /**
+   * Drop a connection whose transport closed or that stopped answering pings, then re-initialise it
+   */
+  const handleConnectionLost = useCallback((config: McpServerConfig, mcpClient: Client, reason: string) => {
+    // Already handled, replaced or closed on purpose
+    if (clientsRef.current.get(config.id) !== mcpClient) return;
+
+    console.warn(`[MCP] Lost connection to ${config.label}: ${reason}`);
+    clientsRef.current.delete(config.id);
+    stopHealthCheck(config.id);
+    updateServer(config.id, { status: 'error', error: reason, latencyMs: undefined });
+    mcpClient.close().catch(() => {});
+
+    connectionAttempts.current.set(config.id, 0);
+    scheduleReconnect(config);
+  }, [updateServer, stopHealthCheck, scheduleReconnect]);
+
+  /**
+   * Ping a connected server periodically; a failed ping means the server died or lost our session
+   */
+  const startHealthCheck = useCallback((config: McpServerConfig, mcpClient: Client) => {
+    stopHealthCheck(config.id);
+    healthCheckTimers.current.set(config.id, setInterval(async () => {
+      const startedAt = Date.now();
+      try {
+        await mcpClient.ping({ timeout: MCP_HEALTH_CHECK.pingTimeoutMs });
+        updateServer(config.id, { latencyMs: Date.now() - startedAt });
+      } catch (pingError) {
+        handleConnectionLost(config, mcpClient, `Health check failed: ${extractMcpError(pingError)}`);
+      }
+    }, MCP_HEALTH_CHECK.pingIntervalMs));
+  }, [updateServer, stopHealthCheck, handleConnectionLost]);
+
+  /**
+   * Connect to one MCP server and discover its tools, resources and prompts
+   */
+  const connectServer = useCallback(async (config: McpServerConfig): Promise<void> => {
     // Prevent duplicate connections (React Strict Mode protection)
-    if (isConnecting.current || isConnected || client) {
-      console.log('[MCP] Connection already in progress or established, skipping');
+    if (connectingServers.current.has(config.id) || clientsRef.current.has(config.id)) {
+      console.log(`[MCP] ${config.label}: connection already in progress or established, skipping`);
       return;
     }
 
+    clearTimeout(reconnectTimers.current.get(config.id));
+    reconnectTimers.current.delete(config.id);
+
+    const lifecycle = lifecycleRef.current;
+    const attempt = (connectionAttempts.current.get(config.id) ?? 0) + 1;
+    connectionAttempts.current.set(config.id, attempt);
+    connectingServers.current.add(config.id);
+    updateServer(config.id, { status: 'connecting', error: undefined, nextRetryAt: undefined });
+
+    // Create new client instance
+    const mcpClient = new Client({
+      name: 'sap-sales-assistant',
+      version: '1.0.0'
+    });
+
     try {
-      isConnecting.current = true;
-      setError(null);
-      connectionAttempts.current += 1;
+      console.log(`[MCP] Attempting connection to ${config.label} server (attempt ${attempt})`);
 
-      console.log(`[MCP] Attempting connection to SAP server (attempt ${connectionAttempts.current})`);
+      // The transport closing on its own (session terminated, stream failure) means re-initialising
+      mcpClient.onclose = () => handleConnectionLost(config, mcpClient, 'Transport closed');
 
-      // Create new client instance
-      const mcpClient = new Client({
-        name: 'sap-sales-assistant',
-        version: '1.0.0'
+      // Servers announce new or removed tools, e.g. after a deployment
+      mcpClient.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+        console.log(`[MCP] ${config.label} announced a tool list change`);
+        void refreshServerTools(config, mcpClient);
+      });
+      mcpClient.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+        const { level, logger, data } = notification.params;
+        const text = typeof data === 'string' ? data : JSON.stringify(data);
+        toolLogListeners.current.get(config.id)?.forEach(listener => listener({
+          log: `${level}${logger ? ` [${logger}]` : ''}: ${text}`
+        }));
+      });
+      mcpClient.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+        void discoverResources(config, mcpClient);
+      });
+      mcpClient.setNotificationHandler(PromptListChangedNotificationSchema, () => {
+        void discoverPrompts(config, mcpClient);
       });
 
-      // Create HTTP stream transport
-      const mcpUrl = getMcpServerUrl();
+      // Create HTTP stream transport with the server's auth (headers, bearer token or OAuth)
       const serverParams = new StreamableHTTPClientTransport(
-        new URL(mcpUrl, window.location.origin)
+        new URL(config.url, window.location.origin),
+        buildMcpTransportOptions(config)
       );
 
+      // Returning from the OAuth sign-in page: exchange the code before connecting
+      const authorizationCode = config.auth?.type === 'oauth' ? consumeOAuthCallback(config.id) : null;
+      if (authorizationCode) {
+        console.log(`[MCP] Completing ${config.label} authorization...`);
+        await serverParams.finishAuth(authorizationCode);
+      }
+
       // Connect to server
       await mcpClient.connect(serverParams);
-      
-      console.log('[MCP] Successfully connected to SAP server');
-      setClient(mcpClient);
-      setIsConnected(true);
-      connectionAttempts.current = 0;
-      isConnecting.current = false;
+
+      // Disconnected while the handshake was in flight
+      if (lifecycle !== lifecycleRef.current) {
+        await mcpClient.close();
+        return;
+      }
+
+      console.log(`[MCP] Successfully connected to ${config.label} server`);
+      clientsRef.current.set(config.id, mcpClient);
+      connectionAttempts.current.set(config.id, 0);
+      updateServer(config.id, { status: 'connected', connectedAt: new Date() });
+      startHealthCheck(config, mcpClient);
 
       // Discover available tools
       try {
-        console.log('[MCP] Discovering available tools...');
+        console.log(`[MCP] Discovering ${config.label} tools...`);
         const toolsResponse = await mcpClient.listTools();
         const tools = processMcpToolsResponse(toolsResponse);
-        
-        console.log(`[MCP] Discovered ${tools.length} tools:`, tools.map(t => t.name));
-        setAvailableTools(tools);
+
+        console.log(`[MCP] Discovered ${tools.length} ${config.label} tools:`, tools.map(t => t.name));
+        // A re-initialised server may come back with a different tool list
+        const previousTools = toolsByServerRef.current[config.id];
+        setServerTools(config.id, tools);
+        const diff = previousTools ? diffToolLists(previousTools, tools) : null;
+        if (diff && !isEmptyToolListDiff(diff)) {
+          onToolListChangedRef.current?.(config, diff);
+        }
       } catch (toolsError) {
-        console.warn('[MCP] Failed to discover tools:', toolsError);
+        console.warn(`[MCP] Failed to discover ${config.label} tools:`, toolsError);
         setError({
           type: 'CONNECTION',
-          message: 'Connected to server but failed to discover tools',
+          message: `Connected to ${config.label} server but failed to discover tools`,
           details: toolsError
         });
       }
 
+      // Server logs are shown on running tool calls
+      if (mcpClient.getServerCapabilities()?.logging) {
+        mcpClient.setLoggingLevel('info').catch((loggingError) => {
+          console.warn(`[MCP] ${config.label} rejected the logging level:`, loggingError);
+        });
+      }
+
+      // Resources and prompts are optional extras; failures are only logged
+      await Promise.all([discoverResources(config, mcpClient), discoverPrompts(config, mcpClient)]);
+
     } catch (connectionError) {
-      console.error('[MCP] Connection failed:', connectionError);
-      
+      mcpClient.onclose = undefined;
+      mcpClient.close().catch(() => {});
+      if (lifecycle !== lifecycleRef.current) return;
+
+      console.error(`[MCP] ${config.label} connection failed:`, connectionError);
+
       const errorMessage = extractMcpError(connectionError);
+      const authFailed = isMcpAuthError(connectionError);
       setError({
         type: 'CONNECTION',
-        message: `Failed to connect to MCP server: ${errorMessage}`,
+        message: authFailed
+          ? `Authentication failed for ${config.label} MCP server: ${errorMessage}`
+          : `Failed to connect to ${config.label} MCP server: ${errorMessage}`,
         details: connectionError
       });
+      updateServer(config.id, { status: 'error', error: authFailed ? 'Authentication failed' : errorMessage });
 
-      setIsConnected(false);
-      setClient(null);
-      isConnecting.current = false;
-
-      // Retry logic
-      if (connectionAttempts.current < maxRetries) {
-        console.log(`[MCP] Retrying connection in 2 seconds...`);
-        setTimeout(() => connect(), 2000);
+      // Rejected credentials (or a pending OAuth redirect) will not fix themselves
+      if (authFailed) {
+        console.error(`[MCP] ${config.label} rejected the credentials, not retrying`);
       } else {
-        console.error('[MCP] Max connection attempts reached');
+        scheduleReconnect(config);
       }
     } finally {
-      // Ensure isConnecting is always reset
-      isConnecting.current = false;
+      // Ensure the connecting flag is always reset (a newer lifecycle owns its own flag)
+      if (lifecycle === lifecycleRef.current) {
+        connectingServers.current.delete(config.id);
+      }
     }
-  }, []);
+  }, [
+    updateServer,
+    setServerTools,
+    refreshServerTools,
+    discoverResources,
+    discoverPrompts,
+    handleConnectionLost,
+    startHealthCheck,
+    scheduleReconnect
+  ]);
+  connectServerRef.current = connectServer;
 
   /**
-   * Disconnect from MCP server
+   * Connect to every configured MCP server; one failing server does not block the others
+   */
+  const connect = useCallback(async () => {
+    let configs: McpServerConfig[];
+    try {
+      configs = getMcpServers();
+    } catch (configError) {
+      console.error('[MCP] Invalid server configuration:', configError);
+      setError({
+        type: 'CONNECTION',
+        message: `Failed to connect to MCP server: ${extractMcpError(configError)}`,
+        details: configError
+      });
+      return;
+    }
+
+    serverConfigsRef.current = configs;
+    // An explicit connect starts every server's backoff afresh
+    connectionAttempts.current.clear();
+    setError(null);
+    // Servers not reached yet in this page load start with their last known tools, so the
+    // model is given them even if the server is down; calls get SERVICE_UNAVAILABLE until it answers
+    configs.forEach(config => {
+      const lastKnownTools = toolsByServerRef.current[config.id] ? null : loadLastKnownTools(config.id);
+      if (lastKnownTools) {
+        toolsByServerRef.current = { ...toolsByServerRef.current, [config.id]: lastKnownTools };
+      }
+    });
+    setToolsByServer(toolsByServerRef.current);
+    setServers(prev => configs.map(config => prev.find(server => server.id === config.id) ?? {
+      id: config.id,
+      label: config.label,
+      status: 'disconnected',
+      toolCount: toolsByServerRef.current[config.id]?.length ?? 0
+    }));
+
+    await Promise.all(configs.map(config => connectServer(config)));
+  }, [connectServer]);
+
+  /**
+   * Disconnect from every MCP server
    */
   const disconnect = useCallback(async () => {
-    if (client && isConnected) {
+    lifecycleRef.current += 1;
+    reconnectTimers.current.forEach(timer => clearTimeout(timer));
+    reconnectTimers.current.clear();
+    healthCheckTimers.current.forEach(timer => clearInterval(timer));
+    healthCheckTimers.current.clear();
+    // Handshakes still in flight are dropped when they finish (see lifecycleRef)
+    connectingServers.current.clear();
+
+    // Cleared first so the closing transports are not treated as lost connections
+    const clients = Array.from(clientsRef.current.entries());
+    clientsRef.current.clear();
+
+    await Promise.all(clients.map(async ([id, mcpClient]) => {
       try {
-        await client.close();
-        console.log('[MCP] Disconnected from SAP server');
+        await mcpClient.close();
+        console.log(`[MCP] Disconnected from ${id} server`);
       } catch (disconnectError) {
-        console.warn('[MCP] Error during disconnect:', disconnectError);
+        console.warn(`[MCP] Error during ${id} disconnect:`, disconnectError);
       }
-    }
-    
-    setClient(null);
-    setIsConnected(false);
-    setAvailableTools([]);
+    }));
+
+    setServers(prev => prev.map(server => ({
+      ...server,
+      status: 'disconnected',
+      toolCount: 0,
+      error: undefined,
+      latencyMs: undefined,
+      nextRetryAt: undefined
+    })));
+    toolsByServerRef.current = {};
+    toolRefreshes.current.clear();
+    toolResultCache.current.clear();
+    setToolsByServer({});
+    setResourcesByServer({});
+    setPromptsByServer({});
     setError(null);
-    connectionAttempts.current = 0;
-  }, [client, isConnected]);
+    connectionAttempts.current.clear();
+  }, []);
+
+  const availableTools = useMemo(
+    () => buildToolRegistry(serverConfigsRef.current, toolsByServer),
+    [toolsByServer]
+  );
+  const resources = useMemo(
+    () => serverConfigsRef.current.flatMap(config => resourcesByServer[config.id] ?? []),
+    [resourcesByServer]
+  );
+  const prompts = useMemo(
+    () => serverConfigsRef.current.flatMap(config => promptsByServer[config.id] ?? []),
+    [promptsByServer]
+  );
+  const isConnected = servers.some(server => server.status === 'connected');
+  const connectionState = getMcpConnectionState(servers);
 
   /**
    * Execute a tool call via MCP server
+   * Aborting `options.signal` cancels the MCP request and rejects with the abort reason.
    */
-  const executeToolCall = useCallback(async (functionCall: FunctionCall): Promise<FunctionResponse> => {
+  const executeToolCall = useCallback(async (functionCall: FunctionCall, options?: ToolCallOptions): Promise<FunctionResponse> => {
+    // Route to the owning server under its server-side name
+    const tool = options?.tool ?? availableTools.find(candidate => candidate.name === functionCall.name);
+    const serverId = tool?.serverId ?? serverConfigsRef.current[0]?.id;
+    const toolName = tool ? tool.mcpName ?? tool.name : functionCall.name;
+    const client = serverId ? clientsRef.current.get(serverId) : undefined;
+
     // ✅ NUEVO: Logging detallado antes de ejecutar tool
     console.log('[MCP] Tool execution attempt:', {
       toolName: functionCall.name,
+      serverId,
+      serverToolName: toolName,
       hasClient: !!client,
-      isConnected: isConnected,
       availableToolsCount: availableTools.length,
       timestamp: new Date().toISOString()
     });
 
-    if (!client || !isConnected) {
+    if (!client) {
       console.error('[MCP] Tool execution failed - client not ready:', {
-        hasClient: !!client,
-        isConnected: isConnected,
+        serverId,
         toolName: functionCall.name,
         availableToolsCount: availableTools.length,
         timestamp: new Date().toISOString()
       });
-      throw new Error('MCP client not connected');
+      throw new Error(`MCP client not connected${serverId ? ` (${serverId})` : ''}`);
     }
 
-    const startTime = Date.now();
+    // Check the model's arguments before they reach SAP, so it can correct itself
+    let args = functionCall.args;
+    if (tool) {
+      const validation = validateToolArguments(functionCall.args, tool.inputSchema);
+      if (validation.coercions.length > 0) {
+        console.log(`[MCP] Coerced arguments for ${functionCall.name}:`, validation.coercions);
+      }
+      if (!validation.valid) {
+        console.warn(`[MCP] Invalid arguments for ${functionCall.name}:`, validation.issues);
+        return formatToolResponseForGemini(functionCall.name, functionCall.id, {
+          error: true,
+          message: `Invalid arguments: ${validation.issues.map(issue => `${issue.path || '/'} ${issue.message}`).join('; ')}`,
+          validationErrors: validation.issues
+        });
+      }
+      args = validation.args;
+    }
+
+    // Identical read-only calls share one server call and reuse its result within the TTL
+    const cacheTtlMs = options?.cacheTtlMs ?? 0;
+    const cacheKey = cacheTtlMs > 0 && serverId ? buildToolCacheKey(serverId, toolName, args) : null;
+    if (cacheKey) {
+      const reuse = (response: FunctionResponse, cacheHit: ToolCacheHit): FunctionResponse => {
+        console.log(`[MCP] Reusing ${cacheHit.source} result for ${functionCall.name}`);
+        return { ...response, id: functionCall.id, name: functionCall.name, cacheHit };
+      };
+
+      const cached = toolResultCache.current.get(cacheKey);
+      if (cached && Date.now() - cached.cachedAt < cacheTtlMs) {
+        return reuse(cached.response, { source: 'cache', cachedAt: new Date(cached.cachedAt) });
+      }
+      toolResultCache.current.delete(cacheKey);
+
+      const inFlight = inFlightToolCalls.current.get(cacheKey);
+      if (inFlight) {
+        try {
+          const shared = await awaitWithSignal(inFlight, options?.signal);
+          return reuse(shared.response, { source: 'in-flight', cachedAt: new Date() });
+        } catch (sharedError) {
+          if (options?.signal?.aborted) {
+            throw sharedError;
+          }
+          // The caller that started the shared call cancelled it; run this one on its own
+        }
+      }
+    }
+
+    const callServer = async (): Promise<{ response: FunctionResponse; succeeded: boolean }> => {
+      const startTime = Date.now();
+
+      const onProgress = options?.onProgress;
+      if (onProgress && serverId) {
+        const listeners = toolLogListeners.current.get(serverId) ?? new Set();
+        listeners.add(onProgress);
+        toolLogListeners.current.set(serverId, listeners);
+      }
     
-    try {
-      console.log(`[MCP] Executing tool: ${functionCall.name}`, functionCall.args);
+      try {
+        console.log(`[MCP] Executing tool: ${toolName} on ${serverId}`, args);
 
-      // Call the tool on MCP server
-      const response = await client.callTool({
-        name: functionCall.name,
-        arguments: functionCall.args
-      });
+        // Call the tool on MCP server; passing onprogress sends a progress token
+        const response = await client.callTool({
+          name: toolName,
+          arguments: args
+        }, undefined, {
+          signal: options?.signal,
+          timeout: options?.timeoutMs,
+          resetTimeoutOnProgress: true,
+          onprogress: onProgress
+            ? ({ progress, total, message }) => onProgress({ progress, total, message })
+            : undefined
+        });
       
-      // Process the response
-      const processedResponse = processToolExecutionResponse(response);
+        // Process the response: structured data for the model, attachments for the chat
+        const { data, attachments } = processToolExecutionResponse(response, tool?.outputSchema);
       
-      const duration = Date.now() - startTime;
-      logToolExecution(functionCall.name, functionCall.args, processedResponse, duration);
-
-      // Format response for Gemini Live
-      return formatToolResponseForGemini(
-        functionCall.name, 
-        functionCall.id, 
-        processedResponse
-      );
+        const duration = Date.now() - startTime;
+        logToolExecution(functionCall.name, args, data, duration);
+
+        // Format response for Gemini Live
+        const formatted = formatToolResponseForGemini(
+          functionCall.name, 
+          functionCall.id, 
+          data
+        );
+        if (attachments.length === 0) {
+          return { response: formatted, succeeded: true };
+        }
+        return {
+          response: {
+            ...formatted,
+            response: { ...formatted.response, attachments: describeAttachmentsForModel(attachments) },
+            attachments
+          },
+          succeeded: true
+        };
+
+      } catch (toolError) {
+        const duration = Date.now() - startTime;
 
-    } catch (toolError) {
-      const duration = Date.now() - startTime;
-      const errorMessage = extractMcpError(toolError);
+        if (options?.signal?.aborted) {
+          console.log(`[MCP] Tool execution cancelled: ${functionCall.name} after ${duration}ms`);
+          throw toolError;
+        }
+
+        const errorMessage = extractMcpError(toolError);
       
-      console.error(`[MCP] Tool execution failed: ${functionCall.name}`, {
-        error: errorMessage,
-        duration: `${duration}ms`,
-        args: functionCall.args
-      });
+        console.error(`[MCP] Tool execution failed: ${functionCall.name}`, {
+          error: errorMessage,
+          duration: `${duration}ms`,
+          args
+        });
 
-      // Return error response in expected format
-      return formatToolResponseForGemini(
-        functionCall.name,
-        functionCall.id,
-        {
-          error: true,
-          message: errorMessage,
-          details: toolError
+        // Return error response in expected format
+        return {
+          response: formatToolResponseForGemini(
+            functionCall.name,
+            functionCall.id,
+            {
+              error: true,
+              message: errorMessage,
+              details: toolError
+            }
+          ),
+          succeeded: false
+        };
+      } finally {
+        if (onProgress && serverId) {
+          toolLogListeners.current.get(serverId)?.delete(onProgress);
         }
-      );
+      }
+    };
+
+    const execution = callServer();
+    if (cacheKey) {
+      inFlightToolCalls.current.set(cacheKey, execution);
+    }
+    try {
+      const { response, succeeded } = await execution;
+      if (succeeded && options?.invalidatesCache && serverId) {
+        invalidateCachedResults(serverId);
+      }
+      if (succeeded && cacheKey && serverId) {
+        storeToolResult(cacheKey, serverId, response);
+      }
+      return response;
+    } finally {
+      if (cacheKey && inFlightToolCalls.current.get(cacheKey) === execution) {
+        inFlightToolCalls.current.delete(cacheKey);
+      }
+    }
+  }, [availableTools, storeToolResult, invalidateCachedResults]);
+
+  /**
+   * Read a resource from the server that listed it
+   */
+  const readResource = useCallback(async (resource: McpResource): Promise<McpResourceContent[]> => {
+    const client = clientsRef.current.get(resource.serverId);
+    if (!client) {
+      throw new Error(`MCP server ${resource.serverId} is not connected`);
+    }
+
+    console.log(`[MCP] Reading resource ${resource.uri} from ${resource.serverId}`);
+    return processMcpResourceContents(await client.readResource({ uri: resource.uri }));
+  }, []);
+
+  /**
+   * Render a server prompt with the user's arguments
+   */
+  const getPrompt = useCallback(async (prompt: McpPrompt, args: Record<string, string>): Promise<McpPromptMessage[]> => {
+    const client = clientsRef.current.get(prompt.serverId);
+    if (!client) {
+      throw new Error(`MCP server ${prompt.serverId} is not connected`);
     }
-  }, [client, isConnected]);
+
+    console.log(`[MCP] Getting prompt ${prompt.name} from ${prompt.serverId}`, args);
+    return processMcpPromptMessages(await client.getPrompt({ name: prompt.name, arguments: args }));
+  }, []);
 
   /**
    * Auto-connect on mount
    */
   useEffect(() => {
-    // Only connect if not already connected or connecting
-    if (!isConnected && !client && connectionAttempts.current === 0) {
-      connect();
-    }
-    
+    void connect();
+
     // Cleanup on unmount
     return () => {
-      disconnect();
+      void disconnect();
     };
   }, []); // Empty dependency array to prevent multiple connections
 
+  /**
+   * Retry servers that gave up or are waiting on backoff as soon as the browser is back online
+   */
+  useEffect(() => {
+    const handleOnline = () => {
+      for (const config of serverConfigsRef.current) {
+        if (!clientsRef.current.has(config.id) && !connectingServers.current.has(config.id)) {
+          console.log(`[MCP] Network is back, reconnecting to ${config.label}`);
+          connectionAttempts.current.set(config.id, 0);
+          void connectServerRef.current(config);
+        }
+      }
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
   /**
    * Monitor connection state changes for debugging
    */
   useEffect(() => {
     console.log('[MCP] Connection state changed:', {
-      isConnected: isConnected,
-      hasClient: !!client,
+      servers: servers.map(server => `${server.id}: ${server.status}`),
       availableToolsCount: availableTools.length,
       timestamp: new Date().toISOString()
     });
-  }, [isConnected, client, availableTools]);
-
-  /**
-   * Handle connection errors and reconnection
-   */
-  useEffect(() => {
-    if (error && error.type === 'CONNECTION' && connectionAttempts.current < maxRetries) {
-      const timer = setTimeout(() => {
-        console.log('[MCP] Attempting automatic reconnection...');
-        connect();
-      }, 5000);
-
-      return () => clearTimeout(timer);
-    }
-  }, [error, connect]);
+  }, [servers, availableTools]);
 
   return {
-    client,
+    client: serverConfigsRef.current[0] ? clientsRef.current.get(serverConfigsRef.current[0].id) ?? null : null,
     isConnected,
+    servers,
+    connectionState,
     availableTools,
+    resources,
+    prompts,
     error,
     connect,
     disconnect,
-    executeToolCall
+    executeToolCall,
+    readResource,
+    getPrompt
   };
 };
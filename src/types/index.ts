@@ -1,5 +1,15 @@
+import type {
+  FunctionResponseScheduling,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+  Schema
+} from '@google/genai';
+
 // Application state types
-export type AppState = 'IDLE' | 'LISTENING' | 'PROCESSING' | 'SPEAKING';
+export type AppState = 'IDLE' | 'LISTENING' | 'PROCESSING' | 'SPEAKING' | 'RECONNECTING';
 
 // Voice options for Gemini Live
 export type VoiceOption = 'Zephyr' | 'Puck' | 'Charon' | 'Kore' | 'Fenrir' | 'Leda' | 'Orus' | 'Aoede';
@@ -10,12 +20,42 @@ export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
-  type?: 'voice' | 'tool-start' | 'tool-result' | 'tool-error' | 'status';
+  type?: 'voice' | 'tool-start' | 'tool-result' | 'tool-error' | 'tool-confirmation' | 'tool-queued' | 'status';
   toolName?: string;
   toolData?: any;
+  // Images, audio and files returned by an MCP tool
+  attachments?: McpAttachment[];
+  // Live status of a running tool, shown on its tool-start message
+  toolProgress?: ToolProgressState;
+  // Tool result reused from the cache or a concurrent identical call
+  cacheHit?: ToolCacheHit;
+  confirmation?: {
+    id: string;
+    status: ToolConfirmationStatus;
+  };
 }
 
 // MCP Tool types
+export type ToolResponseScheduling = 'INTERRUPT' | 'WHEN_IDLE' | 'SILENT';
+
+/**
+ * Live API execution hints a tool declares in its `_meta.liveExecution`.
+ * NON_BLOCKING tools run in the background while Amy keeps talking.
+ */
+export interface McpToolExecution {
+  behavior: 'BLOCKING' | 'NON_BLOCKING';
+  scheduling?: ToolResponseScheduling;
+}
+
+// Behaviour hints from the MCP spec; untrusted unless the server is trusted
+export interface McpToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
 export interface McpTool {
   name: string;
   description: string;
@@ -24,13 +64,236 @@ export interface McpTool {
     properties: Record<string, any>;
     required?: string[];
   };
+  // JSON Schema of the tool's structuredContent
+  outputSchema?: Record<string, unknown>;
+  execution?: McpToolExecution;
+  annotations?: McpToolAnnotations;
+  // Server-side name when the model-facing name differs (server namespace or profile rename)
+  mcpName?: string;
+  // Registry id of the MCP server that provides the tool
+  serverId?: string;
+}
+
+// ============================================
+// MCP Server Registry Types
+// ============================================
+
+// How the MCP transport authenticates; 'oauth' runs the authorization-code flow with PKCE
+export type McpAuthConfig =
+  | { type: 'none' }
+  | { type: 'bearer'; token: string }
+  | { type: 'headers'; headers: Record<string, string> }
+  | {
+      type: 'oauth';
+      // Omitted: the client registers itself dynamically with the authorization server
+      clientId?: string;
+      clientSecret?: string;
+      scope?: string;
+      // Defaults to the app's own URL, which completes the flow on load
+      redirectUrl?: string;
+    };
+
+export interface McpServerConfig {
+  id: string;
+  label: string;
+  url: string;
+  // Prefix for tool names ('crm' → 'crm__searchAccounts'); omitted keeps the server's names
+  namespace?: string;
+  headers?: Record<string, string>;
+  auth?: McpAuthConfig;
+}
+
+export type McpServerStatus = 'connecting' | 'connected' | 'error' | 'disconnected';
+
+export interface McpServerState {
+  id: string;
+  label: string;
+  status: McpServerStatus;
+  toolCount: number;
+  error?: string;
+  connectedAt?: Date;
+  // Round trip of the last successful health-check ping
+  latencyMs?: number;
+  // Set while waiting to re-initialise a lost or failed connection
+  nextRetryAt?: Date;
+}
+
+// Overall MCP availability: 'degraded' means some servers are down while others answer
+export type McpConnectionState = 'connecting' | 'ready' | 'degraded' | 'offline';
+
+export interface McpHealthCheckSettings {
+  pingIntervalMs: number;
+  // A ping without an answer in this time counts as a dead connection
+  pingTimeoutMs: number;
+}
+
+// Tool names that differ between two listings of the same tools
+export interface McpToolListDiff {
+  added: string[];
+  removed: string[];
+  // Same name, different description, schema or execution hints
+  changed: string[];
+}
+
+// ============================================
+// MCP Resources & Prompts Types
+// ============================================
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  // Registry id of the MCP server that provides the resource
+  serverId: string;
+}
+
+// One item of a resources/read result; binary data arrives base64-encoded in `blob`
+export interface McpResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments: McpPromptArgument[];
+  serverId: string;
+}
+
+// A prompts/get message reduced to the text the Live session can take
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+// ============================================
+// Schema Conversion Types
+// ============================================
+
+// A JSON Schema keyword the Gemini schema cannot express, at a JSON-pointer-like path
+export interface DroppedSchemaConstruct {
+  path: string;
+  keyword: string;
+  reason: string;
+}
+
+export interface SchemaConversionResult {
+  schema: Schema;
+  dropped: DroppedSchemaConstruct[];
+}
+
+// ============================================
+// Tool Argument Validation Types
+// ============================================
+
+export interface ToolArgumentIssue {
+  path: string;
+  message: string;
+}
+
+export interface ToolArgumentValidation {
+  valid: boolean;
+  // Arguments after coercion; only meaningful when valid
+  args: Record<string, unknown>;
+  issues: ToolArgumentIssue[];
+  // Human-readable notes of every value that was fixed up
+  coercions: string[];
+}
+
+// ============================================
+// Tool Profile Types
+// ============================================
+
+export interface ToolProfileRule {
+  name?: string;
+  description?: string;
 }
 
+/**
+ * Which MCP tools a user role exposes to the model, and how they are presented.
+ * Patterns match MCP tool names and accept '*' wildcards.
+ */
+export interface ToolProfile {
+  id: string;
+  label: string;
+  // Omitted means every tool is allowed
+  allow?: string[];
+  deny?: string[];
+  // Drops every tool that would need a confirmation
+  readOnly?: boolean;
+  // Renames / re-descriptions keyed by MCP tool name
+  tools?: Record<string, ToolProfileRule>;
+}
+
+// ============================================
+// Tool Confirmation Types
+// ============================================
+
+// 'confirm' pauses the call until the user approves it
+export type ToolConfirmationPolicy = 'auto' | 'confirm';
+
+export type ToolConfirmationStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'cancelled';
+
+export interface ToolConfirmationSettings {
+  // Local per-tool policy; wins over the server's annotations
+  overrides: Record<string, ToolConfirmationPolicy>;
+  // Fallback for unannotated tools, matched against the tool name
+  destructiveNamePattern: RegExp;
+  timeoutMs: number;
+  // Spoken answers only count once the prompt has played and this long has passed,
+  // so late transcription of the request that triggered the call is not taken as the answer
+  answerDelayMs: number;
+}
+
+export interface PendingToolConfirmation {
+  id: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  requestedAt: Date;
+}
+
+// Content blocks of a tools/call result; binary data is base64-encoded
+export type McpContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: McpResourceContent }
+  | { type: 'resource_link'; uri: string; name: string; title?: string; description?: string; mimeType?: string };
+
 export interface McpToolResponse {
-  content: Array<{
-    type: string;
-    text?: string;
-  }>;
+  content: McpContentBlock[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+// Non-text content of a tool result, as rendered in the chat
+export interface McpAttachment {
+  kind: 'image' | 'audio' | 'file' | 'link';
+  name: string;
+  mimeType?: string;
+  uri?: string;
+  // base64 payload of images, audio and binary files
+  data?: string;
+  // Contents of an embedded text resource
+  text?: string;
+}
+
+// A tools/call result split into what the model reads and what the chat renders
+export interface McpToolResult {
+  // structuredContent when present, otherwise the text content (parsed when it is JSON)
+  data: unknown;
+  attachments: McpAttachment[];
 }
 
 // Gemini Live types
@@ -58,6 +321,13 @@ export interface FunctionResponse {
   id: string;
   name: string;  // ✅ RESTORED: Required field per official API specification
   response: any;
+  // Only honoured for NON_BLOCKING function calls
+  scheduling?: FunctionResponseScheduling;
+  willContinue?: boolean;
+  // Client-side only: attachments of the MCP result, never sent to the Live API
+  attachments?: McpAttachment[];
+  // Client-side only: set when the result did not come from a fresh server call
+  cacheHit?: ToolCacheHit;
 }
 
 export interface ToolCallMessage {
@@ -78,10 +348,201 @@ export interface ServerContentMessage {
 }
 
 // Audio configuration
+// Who decides when the user is talking: Gemini's automatic detection, the
+// client-side detector, a held push-to-talk key/button, or the client-side
+// detector gated by the wake word
+export type AudioInputMode = 'server-vad' | 'client-vad' | 'push-to-talk' | 'wake-word';
+
 export interface AudioConfig {
   voiceName: VoiceOption;
-  enableVAD: boolean;
+  inputMode: AudioInputMode;
   sampleRate?: number;
+  // Microphone audio sent per realtimeInput message (20–100 ms)
+  captureChunkMs?: number;
+  // BCP-47 output language; empty lets the native audio model pick it from the conversation
+  languageCode?: string;
+  // Let the model adapt its tone to the user's emotion (native audio models only)
+  enableAffectiveDialog?: boolean;
+}
+
+// Energy / zero-crossing speech detector for the 'client-vad' input mode
+export interface ClientVadSettings {
+  // Frame RMS level (dBFS) above which a frame can be speech
+  energyThresholdDb: number;
+  // Fraction of sign changes per sample above which a loud frame is noise (hiss, clicks) rather than voice
+  maxZeroCrossingRate: number;
+  // Speech this long opens an activity; silence this long closes it
+  attackMs: number;
+  hangoverMs: number;
+  // Audio kept from before the activity opened, so the first syllable is not cut
+  preRollMs: number;
+}
+
+export interface PcmFrameFeatures {
+  // RMS level in dBFS; -Infinity for digital silence
+  levelDb: number;
+  // Sign changes per sample (0–1)
+  zeroCrossingRate: number;
+}
+
+// Streaming sample-rate converter used by the capture worklet
+export interface PcmResampler {
+  // Converts one block; input kept back for the filter's look-ahead comes out with the next block
+  process: (input: Float32Array) => Float32Array;
+}
+
+export interface VoiceActivityState {
+  speaking: boolean;
+  // Consecutive speech (while silent) or silence (while speaking) so far
+  runMs: number;
+}
+
+// A capture chunk held back by the client-side detectors (pre-roll, wake-word segment)
+export interface CaptureChunk {
+  pcm: Int16Array;
+  blob: { data: string; mimeType: string };
+  durationMs: number;
+}
+
+// Keyword spotter for the 'wake-word' input mode, matched against recorded samples of the phrase
+export interface WakeWordSettings {
+  phrase: string;
+  // Samples the user records before the spotter works (at least 2: the threshold comes from their distances)
+  enrollmentSamples: number;
+  // Accepted sample length once leading and trailing silence are trimmed
+  minSampleMs: number;
+  maxSampleMs: number;
+  // Match threshold = largest distance between two recorded samples × this factor
+  thresholdScale: number;
+  // Speech collected before deciding whether a segment starts with the wake word
+  decisionMs: number;
+  // Silence (user and assistant) after which the listening window closes
+  listenWindowMs: number;
+}
+
+// MFCC frames of recorded samples; plain arrays so the model survives JSON storage
+export interface WakeWordModel {
+  phrase: string;
+  threshold: number;
+  templates: number[][][];
+}
+
+// 'untrained' until the user records the wake word ('enrolling' while they do), then
+// 'disarmed' (audio stays local) or 'armed' (listening window open after the wake word)
+export type WakeWordState = 'untrained' | 'enrolling' | 'disarmed' | 'armed';
+
+export interface WakeWordStatus {
+  state: WakeWordState;
+  phrase: string;
+  // Samples recorded so far while enrolling
+  samples: number;
+  requiredSamples: number;
+}
+
+// A progress or log notification received while an MCP tool runs
+export interface ToolProgressUpdate {
+  progress?: number;
+  total?: number;
+  message?: string;
+  // A notifications/message line from the tool's server
+  log?: string;
+}
+
+export interface ToolProgressState {
+  percent?: number;
+  message?: string;
+  // Most recent log lines, oldest first
+  logs: string[];
+  finishedAt?: Date;
+}
+
+// Per-call options for MCP tool execution
+export interface ToolCallOptions {
+  // Registry entry for the call; routes it to its server under its server-side name
+  tool?: McpTool;
+  signal?: AbortSignal;
+  // Restarted by every progress notification
+  timeoutMs?: number;
+  onProgress?: (update: ToolProgressUpdate) => void;
+  // Reuse a result of the same tool and arguments up to this old; 0 or unset always calls the server
+  cacheTtlMs?: number;
+  // Drops the server's cached results once the call succeeds (write tools)
+  invalidatesCache?: boolean;
+}
+
+export interface ToolExecutionSettings {
+  // Maximum function calls from one toolCall message executed at the same time
+  maxConcurrency: number;
+  timeoutMs: number;
+  // Log lines kept on a running tool's chat message
+  progressLogLines: number;
+  // After this long Amy is asked to tell the user she is still working; null disables it
+  stillWorkingUpdateMs: number | null;
+}
+
+// Read-only calls to an unavailable MCP server wait here and run when it reconnects
+export interface OfflineToolQueueSettings {
+  enabled: boolean;
+  maxQueued: number;
+  // Calls queued longer than this are dropped instead of run
+  maxAgeMs: number;
+}
+
+export interface QueuedToolCall {
+  functionCall: FunctionCall;
+  tool: McpTool;
+  queuedAt: number;
+  // Chat message that shows the call as pending
+  messageId: string;
+}
+
+// Results of read-only tools are reused for identical arguments within a TTL
+export interface ToolResultCacheSettings {
+  enabled: boolean;
+  defaultTtlMs: number;
+  // TTL by tool name or '*' pattern; 0 never caches the tool. Write tools are never cached.
+  ttlOverrides: Record<string, number>;
+  maxEntries: number;
+}
+
+export interface ToolCacheHit {
+  // 'cache': reused a stored result; 'in-flight': joined an identical call still running
+  source: 'cache' | 'in-flight';
+  cachedAt: Date;
+}
+
+// Sliding-window context compression for long Live sessions
+export interface ContextCompressionSettings {
+  enabled: boolean;
+  // Context size (tokens) that triggers compression
+  triggerTokens: number;
+  // Tokens kept after compression; must be below triggerTokens
+  targetTokens: number;
+}
+
+export type SessionLimitLevel = 'ok' | 'warning' | 'critical';
+
+export interface SessionLimitStatus {
+  level: SessionLimitLevel;
+  elapsedMs: number;
+  contextTokens: number;
+  // Short human-readable summary for the status bar
+  message: string;
+}
+
+// Older chat messages are paged out of the live list once it grows past maxLiveMessages
+export interface TranscriptArchiveSettings {
+  maxLiveMessages: number;
+  keepLiveMessages: number;
+  pageSize: number;
+}
+
+// Retry timing shared by reconnecting clients
+export interface BackoffPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
 }
 
 // Error types
@@ -92,14 +553,44 @@ export interface AppError {
 }
 
 // Hook return types
+export interface UseMcpClientOptions {
+  // A server re-listed its tools after tools/list_changed and the list differs
+  onToolListChanged?: (server: McpServerConfig, diff: McpToolListDiff) => void;
+  // Size of the tool result cache; TTLs come with each call (ToolCallOptions.cacheTtlMs)
+  maxCachedToolResults?: number;
+}
+
 export interface UseMcpClientReturn {
+  // Client of the primary (first configured) server
   client: any | null;
+  // True while at least one server is connected
   isConnected: boolean;
+  servers: McpServerState[];
+  connectionState: McpConnectionState;
   availableTools: McpTool[];
+  resources: McpResource[];
+  prompts: McpPrompt[];
   error: AppError | null;
   connect: () => Promise<void>;
   disconnect: () => Promise<void>;
-  executeToolCall: (functionCall: FunctionCall) => Promise<FunctionResponse>;
+  executeToolCall: (functionCall: FunctionCall, options?: ToolCallOptions) => Promise<FunctionResponse>;
+  readResource: (resource: McpResource) => Promise<McpResourceContent[]>;
+  getPrompt: (prompt: McpPrompt, args: Record<string, string>) => Promise<McpPromptMessage[]>;
+}
+
+export interface UseGeminiLiveOptions {
+  onToolResponse?: (toolName: string, toolData: unknown) => void;
+  contextCompression?: ContextCompressionSettings;
+  toolExecution?: ToolExecutionSettings;
+  toolConfirmation?: ToolConfirmationSettings;
+  toolProfiles?: ToolProfile[];
+  onConfirmationRequested?: (confirmation: PendingToolConfirmation) => void;
+  onConfirmationResolved?: (id: string, status: ToolConfirmationStatus) => void;
+  // 'restart' applies MCP tool list changes by resuming the session right away (when resumable),
+  // 'prompt' (default) waits for applyToolUpdate
+  toolListRefresh?: 'prompt' | 'restart';
+  offlineQueue?: OfflineToolQueueSettings;
+  toolResultCache?: ToolResultCacheSettings;
 }
 
 export interface UseGeminiLiveReturn {
@@ -112,17 +603,100 @@ export interface UseGeminiLiveReturn {
   endConversation: () => void;
   sendMessage: (message: string) => void;
   setVoice: (voice: VoiceOption) => void;
+  audioConfig: AudioConfig;
+  updateAudioConfig: (changes: Partial<AudioConfig>) => void;
+  // True while an activity is open: push-to-talk held, or speech being sent in the 'client-vad' / 'wake-word' modes
+  isUserTalking: boolean;
+  // Press (true) / release (false) of the push-to-talk key or button
+  setPushToTalk: (active: boolean) => void;
+  // Wake-word spotter status; null unless the 'wake-word' input mode is selected
+  wakeWord: WakeWordStatus | null;
+  // Start (true) or cancel (false) recording wake-word samples; a finished recording replaces the old one
+  setWakeWordEnrolling: (active: boolean) => void;
+  archivedMessages: ChatMessage[];
+  sessionLimit: SessionLimitStatus | null;
+  pendingConfirmations: PendingToolConfirmation[];
+  resolveToolConfirmation: (id: string, approved: boolean) => void;
+  toolProfileId: string;
+  setToolProfile: (profileId: string) => void;
+  mcpServers: McpServerState[];
+  mcpConnectionState: McpConnectionState;
+  // Declarations the open session is missing since the MCP tool list changed
+  pendingToolUpdate: McpToolListDiff | null;
+  applyToolUpdate: () => void;
+  mcpResources: McpResource[];
+  mcpPrompts: McpPrompt[];
+  readMcpResource: (resource: McpResource) => Promise<McpResourceContent[]>;
+  // Adds a resource to the model's context without asking for a reply
+  attachResource: (resource: McpResource) => Promise<void>;
+  // Sends an MCP prompt as the next user turn
+  startPrompt: (prompt: McpPrompt, args: Record<string, string>) => Promise<void>;
 }
 
 export interface UseAudioStateReturn {
   currentState: AppState;
-  setState: (state: AppState) => void;
+  dispatch: (event: LiveSessionEvent) => LiveSessionCommand[];
   isListening: boolean;
   isProcessing: boolean;
   isSpeaking: boolean;
   isIdle: boolean;
 }
 
+// ============================================
+// Tool Audit Log Types
+// ============================================
+
+export type ToolAuditOutcome =
+  | 'success'
+  | 'error'
+  | 'invalid-arguments'
+  | 'refused'
+  | 'rejected'
+  | 'expired'
+  | 'unavailable'
+  | 'queued'
+  | 'cancelled';
+
+// One tool call as kept in the audit trail for SAP data access
+export interface ToolAuditEntry {
+  id: string;
+  // ISO time the call finished
+  timestamp: string;
+  // Operator signed in through MCP OAuth (null when unknown) and the tool profile in use
+  user: string | null;
+  toolProfileId: string;
+  conversationId: string | null;
+  toolName: string;
+  // Server-side tool name and the server it ran on
+  mcpName: string;
+  serverId?: string;
+  args: Record<string, unknown>;
+  outcome: ToolAuditOutcome;
+  // UTF-8 bytes of the result as JSON; 0 when there is none
+  resultBytes: number;
+  durationMs: number;
+  cacheHit?: ToolCacheHit['source'];
+  error?: string;
+  // Transcript of the user turn that led to the call
+  triggerTurn?: string;
+}
+
+export interface ToolAuditFilter {
+  toolName?: string;
+  outcome?: ToolAuditOutcome;
+  from?: Date;
+  to?: Date;
+  // Matched against the user, arguments, error and trigger turn
+  text?: string;
+}
+
+export interface ToolAuditSettings {
+  enabled: boolean;
+  databaseName: string;
+  // Entries older than this are deleted when the log is opened
+  retentionDays: number;
+}
+
 // ============================================
 // A2UI Protocol v0.8 Types
 // ============================================
@@ -248,4 +822,120 @@ export interface UseA2UIAgentReturn {
   isGenerating: boolean;
   error: string | null;
   clearSurfaces: () => void;
+  // Renders app-built A2UI messages (e.g. confirmation cards) without the UI Agent
+  renderMessages: (messages: A2UIMessage[]) => void;
+  removeSurface: (surfaceId: string) => void;
+}
+
+// ============================================
+// Live Transport Types
+// ============================================
+
+// Server message as delivered to callbacks. Recorded scripts are plain JSON,
+// so the SDK's convenience getters (`text`, `data`) are not part of the shape.
+export type LiveServerPayload = Omit<LiveServerMessage, 'text' | 'data'>;
+
+export interface LiveTransportCallbacks {
+  onopen?: () => void;
+  onmessage: (message: LiveServerPayload) => void;
+  onerror?: (error: unknown) => void;
+  onclose?: (event: { code?: number; reason?: string }) => void;
+}
+
+export interface LiveTransportConnectParams {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveTransportCallbacks;
+}
+
+// Subset of the SDK Session used by useGeminiLive
+export interface LiveTransportSession {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendClientContent: (params: LiveSendClientContentParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+export type LiveTransportKind = 'gemini' | 'scripted' | 'websocket';
+
+export interface LiveTransport {
+  kind: LiveTransportKind;
+  connect: (params: LiveTransportConnectParams) => Promise<LiveTransportSession>;
+}
+
+// Client events a scripted step can wait for before being replayed
+export type LiveScriptTrigger = 'clientContent' | 'toolResponse' | 'activityEnd' | 'audioStreamEnd';
+
+export interface LiveScriptStep {
+  // Wait for this client event before replaying (default: replay right after the previous step)
+  trigger?: LiveScriptTrigger;
+  delayMs?: number;
+  message: LiveServerPayload;
+}
+
+export interface LiveScript {
+  name: string;
+  steps: LiveScriptStep[];
+  // Close the session once every step has been replayed
+  closeWhenDone?: boolean;
+}
+
+// ============================================
+// Live Session Engine Types
+// ============================================
+
+export interface LiveSessionState {
+  appState: AppState;
+  isConnected: boolean;
+  isSetupComplete: boolean;
+  // Tool calls received from the model that have not been answered yet
+  pendingToolCallIds: string[];
+  // Model is generating audio/transcription for the current turn
+  isModelTurnActive: boolean;
+  // Scheduled audio buffers are still playing
+  isPlaybackActive: boolean;
+  // A text message was sent and the model has not started answering
+  isAwaitingResponse: boolean;
+  // Connection dropped (or is being replaced) and a resumed session is being opened
+  isReconnecting: boolean;
+  // Server sent goAway; reconnect as soon as the conversation is idle
+  isGoAwayPending: boolean;
+}
+
+export type LiveSessionEvent =
+  | { type: 'CONNECTED' }
+  | { type: 'SETUP_COMPLETE' }
+  | { type: 'INPUT_TRANSCRIPTION'; text: string }
+  | { type: 'OUTPUT_TRANSCRIPTION'; text: string }
+  | { type: 'AUDIO_RECEIVED'; data: string }
+  | { type: 'PLAYBACK_DRAINED' }
+  | { type: 'TURN_COMPLETE' }
+  | { type: 'INTERRUPTED' }
+  | { type: 'TOOL_CALL'; functionCalls: FunctionCall[]; nonBlockingIds: string[] }
+  | { type: 'TOOL_CALLS_SETTLED'; ids: string[] }
+  | { type: 'TOOL_CALL_CANCELLED'; ids: string[] }
+  | { type: 'TEXT_SENT' }
+  | { type: 'RESUMPTION_UPDATE'; handle?: string; resumable: boolean }
+  | { type: 'GO_AWAY'; timeLeft?: string }
+  | { type: 'USAGE_UPDATE'; contextTokens: number }
+  | { type: 'CONNECTION_LOST'; reason?: string }
+  | { type: 'RECONNECT_FAILED'; error: AppError }
+  | { type: 'RESET' };
+
+export type LiveSessionCommand =
+  | { type: 'APPEND_TRANSCRIPT'; role: 'user' | 'assistant'; text: string }
+  | { type: 'PLAY_AUDIO'; data: string }
+  | { type: 'STOP_PLAYBACK' }
+  | { type: 'EXECUTE_TOOLS'; functionCalls: FunctionCall[] }
+  | { type: 'CANCEL_TOOLS'; ids: string[] }
+  | { type: 'STOP_AUDIO_STREAMING' }
+  | { type: 'STORE_RESUMPTION_HANDLE'; handle: string }
+  | { type: 'RECONNECT'; reason: 'connection-lost' | 'go-away' }
+  | { type: 'CANCEL_RECONNECT' }
+  | { type: 'RECORD_USAGE'; contextTokens: number }
+  | { type: 'REPORT_ERROR'; error: AppError };
+
+export interface LiveSessionTransition {
+  state: LiveSessionState;
+  commands: LiveSessionCommand[];
 }
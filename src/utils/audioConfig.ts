@@ -1,4 +1,29 @@
-import type { VoiceOption, AudioConfig } from '../types';
+import type { SpeechConfig } from '@google/genai';
+import type {
+  VoiceOption,
+  AudioConfig,
+  AudioInputMode,
+  ClientVadSettings,
+  WakeWordSettings,
+  WakeWordState,
+  LiveTransportKind,
+  BackoffPolicy,
+  ContextCompressionSettings,
+  TranscriptArchiveSettings,
+  ToolExecutionSettings,
+  ToolConfirmationSettings,
+  ToolProfile,
+  McpServerConfig,
+  McpServerStatus,
+  McpAuthConfig,
+  McpConnectionState,
+  McpHealthCheckSettings,
+  OfflineToolQueueSettings,
+  ToolResultCacheSettings,
+  ToolAuditSettings
+} from '../types';
+import { getMcpSignedInUser, parseMcpAuthConfig } from './mcpAuth';
+import { DEFAULT_CAPTURE_CHUNK_MS } from './pcmAudio';
 
 // Voice options available in Gemini Live
 export const VOICE_OPTIONS: VoiceOption[] = [
@@ -18,14 +43,226 @@ export const DEFAULT_VOICE: VoiceOption = 'Aoede';
 // Gemini Live model configuration
 export const GEMINI_LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
 
+/**
+ * Affective dialog is only available on the native audio models, and on the
+ * Gemini API only through v1alpha
+ */
+export const supportsAffectiveDialog = (model: string): boolean => model.includes('native-audio');
+
 // ✅ REMOVED: System instruction moved to src/prompts/system-instruction.md
 // Use getValidatedSystemInstruction() from promptLoader.ts to load dynamically
 
 // Default audio configuration
 export const DEFAULT_AUDIO_CONFIG: AudioConfig = {
   voiceName: DEFAULT_VOICE,
-  enableVAD: true,
-  sampleRate: 16000
+  inputMode: 'server-vad',
+  sampleRate: 16000,
+  captureChunkMs: DEFAULT_CAPTURE_CHUNK_MS
+};
+
+// Input modes offered in the UI
+export const INPUT_MODE_OPTIONS: Array<{ mode: AudioInputMode; label: string }> = [
+  { mode: 'server-vad', label: 'Automatic (server)' },
+  { mode: 'client-vad', label: 'Voice detection (local)' },
+  { mode: 'push-to-talk', label: 'Push to talk' },
+  { mode: 'wake-word', label: 'Wake word ("Amy")' }
+];
+
+// Tuned for a headset in an open office: quiet background chatter stays below the threshold
+export const CLIENT_VAD_SETTINGS: ClientVadSettings = {
+  energyThresholdDb: -45,
+  maxZeroCrossingRate: 0.35,
+  attackMs: 60,
+  hangoverMs: 700,
+  preRollMs: 300
+};
+
+// Spoken name that opens a listening window in the 'wake-word' input mode
+export const WAKE_WORD_SETTINGS: WakeWordSettings = {
+  phrase: 'Amy',
+  enrollmentSamples: 3,
+  minSampleMs: 250,
+  maxSampleMs: 1500,
+  thresholdScale: 1.3,
+  decisionMs: 1200,
+  listenWindowMs: 8000
+};
+
+export const WAKE_WORD_STATE_DISPLAY: Record<WakeWordState, { label: string; color: string }> = {
+  untrained: { label: 'Not recorded', color: '#ef4444' },
+  enrolling: { label: 'Recording samples', color: '#f59e0b' },
+  disarmed: { label: 'Waiting for wake word', color: '#9ca3af' },
+  armed: { label: 'Listening', color: '#10b981' }
+};
+
+export const WAKE_WORD_STORAGE_KEY = 'ai-live-sales-assistant.wakeWord';
+
+// KeyboardEvent.code held for push-to-talk; ignored while typing in a text field
+export const PUSH_TO_TALK_KEY = 'Space';
+
+// Output languages offered in the UI ('' = let the model follow the conversation)
+export const LANGUAGE_OPTIONS: Array<{ code: string; label: string }> = [
+  { code: '', label: 'Auto' },
+  { code: 'es-US', label: 'Español (US)' },
+  { code: 'es-ES', label: 'Español (España)' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'pt-BR', label: 'Português (Brasil)' }
+];
+
+/**
+ * Builds the Live API speech configuration from the audio settings
+ */
+export const buildSpeechConfig = (config: AudioConfig): SpeechConfig => ({
+  voiceConfig: {
+    prebuiltVoiceConfig: { voiceName: config.voiceName }
+  },
+  ...(config.languageCode ? { languageCode: config.languageCode } : {})
+});
+
+// A Live socket that has not opened by then counts as a failed connection attempt
+export const LIVE_CONNECT_TIMEOUT_MS = 15000;
+
+// Reconnection of dropped Live sockets (resumed with the latest session handle)
+export const LIVE_RECONNECT_POLICY: BackoffPolicy = {
+  maxAttempts: 6,
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  jitter: true
+};
+
+// Function calls from one toolCall run in parallel up to this limit; slow SAP queries time out
+export const DEFAULT_TOOL_EXECUTION: ToolExecutionSettings = {
+  maxConcurrency: 3,
+  timeoutMs: 30000,
+  progressLogLines: 5,
+  stillWorkingUpdateMs: null
+};
+
+// Write tools wait for the user; an unanswered confirmation is rejected so the model is not left hanging
+export const DEFAULT_TOOL_CONFIRMATION: ToolConfirmationSettings = {
+  overrides: {},
+  destructiveNamePattern: /^(create|change|update|delete|cancel|post|release|block|set)/i,
+  timeoutMs: 120000,
+  answerDelayMs: 1500
+};
+
+// SAP document/partner numbers stored with leading zeros (ALPHA conversion), by argument name.
+// A maxLength in the tool schema wins over these lengths.
+export const SAP_ZERO_PADDED_FIELDS: Record<string, number> = {
+  SalesOrder: 10,
+  SalesOrderItem: 6,
+  Customer: 10,
+  SoldToParty: 10,
+  ShipToParty: 10,
+  DeliveryDocument: 10,
+  BillingDocument: 10,
+  PurchaseOrder: 10
+};
+
+// MCP server health colors
+export const MCP_SERVER_STATUS_COLORS: Record<McpServerStatus, string> = {
+  connecting: '#f59e0b',
+  connected: '#10b981',
+  error: '#ef4444',
+  disconnected: '#6b7280'
+};
+
+// MCP servers are re-initialised with backoff after a failed connect or a lost connection
+export const MCP_RECONNECT_POLICY: BackoffPolicy = {
+  maxAttempts: 10,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+  jitter: true
+};
+
+// Streamable HTTP does not notice a dead server until a request fails, so connections are pinged
+export const MCP_HEALTH_CHECK: McpHealthCheckSettings = {
+  pingIntervalMs: 30000,
+  pingTimeoutMs: 5000
+};
+
+// Read-only calls made while their MCP server is down are retried once it is back
+export const DEFAULT_OFFLINE_TOOL_QUEUE: OfflineToolQueueSettings = {
+  enabled: true,
+  maxQueued: 10,
+  maxAgeMs: 10 * 60 * 1000
+};
+
+// Reps ask about the same order or customer several times per call; stock moves faster
+export const DEFAULT_TOOL_RESULT_CACHE: ToolResultCacheSettings = {
+  enabled: true,
+  defaultTtlMs: 2 * 60 * 1000,
+  ttlOverrides: {
+    '*Stock*': 15000,
+    '*Availability*': 15000
+  },
+  maxEntries: 100
+};
+
+// Persistent audit trail of tool calls (IndexedDB) for SAP data access reviews
+export const TOOL_AUDIT_SETTINGS: ToolAuditSettings = {
+  enabled: true,
+  databaseName: 'ai-live-sales-assistant-audit',
+  retentionDays: 180
+};
+
+export const MCP_CONNECTION_STATE_DISPLAY: Record<McpConnectionState, { label: string; color: string }> = {
+  connecting: { label: 'Connecting', color: '#f59e0b' },
+  ready: { label: 'Ready', color: '#10b981' },
+  degraded: { label: 'Degraded', color: '#f97316' },
+  offline: { label: 'Offline', color: '#ef4444' }
+};
+
+// Role-based tool profiles; the first entry is the default
+export const TOOL_PROFILES: ToolProfile[] = [
+  {
+    id: 'full',
+    label: 'All tools'
+  },
+  {
+    id: 'sales-rep',
+    label: 'Sales rep',
+    allow: ['*SalesOrder*', '*Customer*', '*Material*', '*Product*', '*Availability*', '*Credit*'],
+    deny: ['*Billing*']
+  },
+  {
+    id: 'billing-clerk',
+    label: 'Billing clerk',
+    allow: ['*Billing*', '*Invoice*', '*Delivery*', '*SalesOrder*', '*Customer*'],
+    deny: ['create*SalesOrder*', 'change*SalesOrder*', 'cancel*SalesOrder*']
+  },
+  {
+    id: 'read-only-demo',
+    label: 'Read-only demo',
+    readOnly: true
+  }
+];
+
+export const TOOL_PROFILE_STORAGE_KEY = 'ai-live-sales-assistant.toolProfile';
+
+// Last tool listing of each MCP server, declared while that server cannot be reached
+export const MCP_TOOL_LIST_STORAGE_KEY = 'ai-live-sales-assistant.mcpTools';
+
+// Sliding-window compression keeps whole-call sessions inside the 128k native audio context
+export const DEFAULT_CONTEXT_COMPRESSION: ContextCompressionSettings = {
+  enabled: true,
+  triggerTokens: 100000,
+  targetTokens: 60000
+};
+
+// Live API limits used for the session warning in StatusIndicator
+export const LIVE_SESSION_LIMITS = {
+  // Audio-only sessions without compression are terminated after 15 minutes
+  uncompressedSessionMs: 15 * 60 * 1000,
+  contextWindowTokens: 128000,
+  warningRatio: 0.8,
+  criticalRatio: 0.95
+};
+
+export const TRANSCRIPT_ARCHIVE_SETTINGS: TranscriptArchiveSettings = {
+  maxLiveMessages: 200,
+  keepLiveMessages: 150,
+  pageSize: 50
 };
 
 // Audio response modalities
@@ -48,7 +285,8 @@ export const STATE_DISPLAY_NAMES = {
   IDLE: 'Ready',
   LISTENING: 'Listening...',
   PROCESSING: 'Processing...',
-  SPEAKING: 'Speaking...'
+  SPEAKING: 'Speaking...',
+  RECONNECTING: 'Reconnecting...'
 };
 
 // State colors for visual indicators
@@ -56,7 +294,8 @@ export const STATE_COLORS = {
   IDLE: '#6b7280',      // Gray
   LISTENING: '#3b82f6',  // Blue
   PROCESSING: '#f59e0b', // Amber
-  SPEAKING: '#10b981'    // Green
+  SPEAKING: '#10b981',   // Green
+  RECONNECTING: '#ef4444' // Red
 };
 
 // Environment variables
@@ -81,6 +320,97 @@ export const getMcpServerUrl = (): string => {
   return url;
 };
 
+// Longest resource text attached to the Live context; larger documents are truncated
+export const MCP_RESOURCE_MAX_CHARS = 20000;
+
+// Auth for the SAP server from VITE_MCP_AUTH (JSON, e.g. {"type":"bearer","token":"..."})
+const getSapServerAuth = (): McpAuthConfig | undefined => {
+  const auth = import.meta.env.VITE_MCP_AUTH;
+  if (!auth) {
+    return undefined;
+  }
+  try {
+    return parseMcpAuthConfig(JSON.parse(auth));
+  } catch (parseError) {
+    console.error('[MCP] VITE_MCP_AUTH is not valid JSON, connecting without auth:', parseError);
+    return undefined;
+  }
+};
+
+const parseMcpServers = (): McpServerConfig[] => {
+  const servers: McpServerConfig[] = [{ id: 'sap', label: 'SAP', url: getMcpServerUrl(), auth: getSapServerAuth() }];
+
+  const extra = import.meta.env.VITE_MCP_SERVERS;
+  if (!extra) {
+    return servers;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(extra);
+    if (!Array.isArray(parsed)) {
+      throw new Error('expected a JSON array');
+    }
+    for (const entry of parsed) {
+      if (typeof entry?.id !== 'string' || typeof entry?.url !== 'string') {
+        console.warn('[MCP] Ignoring server entry without id or url:', entry);
+        continue;
+      }
+      if (servers.some(server => server.id === entry.id)) {
+        console.warn(`[MCP] Ignoring duplicate server id: ${entry.id}`);
+        continue;
+      }
+      servers.push({
+        id: entry.id,
+        label: typeof entry.label === 'string' ? entry.label : entry.id,
+        url: entry.url,
+        namespace: typeof entry.namespace === 'string' ? entry.namespace : entry.id,
+        headers: entry.headers,
+        auth: entry.auth !== undefined ? parseMcpAuthConfig(entry.auth) : undefined
+      });
+    }
+  } catch (parseError) {
+    console.error('[MCP] VITE_MCP_SERVERS is not valid JSON, using the SAP server only:', parseError);
+  }
+  return servers;
+};
+
+// The environment is fixed at build time, so it is parsed (and warned about) once
+let mcpServers: McpServerConfig[] | null = null;
+
+/**
+ * MCP servers to connect to: the SAP server first, then any extra servers from
+ * VITE_MCP_SERVERS (JSON array of { id, label, url, namespace?, headers?, auth? })
+ */
+export const getMcpServers = (): McpServerConfig[] => {
+  mcpServers ??= parseMcpServers();
+  return mcpServers;
+};
+
+// Live transport selection: 'gemini' (default), 'scripted' (in-memory replay) or 'websocket' (local mock server)
+export const getLiveTransportKind = (): LiveTransportKind => {
+  const kind = import.meta.env.VITE_LIVE_TRANSPORT;
+  if (kind === 'scripted' || kind === 'websocket') {
+    return kind;
+  }
+  return 'gemini';
+};
+
+export const getLiveMockUrl = (): string => {
+  return import.meta.env.VITE_LIVE_MOCK_URL || 'ws://localhost:8765';
+};
+
+// Operator recorded in the tool audit log: the user signed in to the first OAuth MCP server.
+// Null when nobody is signed in; such entries are flagged rather than attributed to a default.
+export const getAuditUser = (): string | null => {
+  for (const server of getMcpServers()) {
+    const user = getMcpSignedInUser(server);
+    if (user) {
+      return user;
+    }
+  }
+  return null;
+};
+
 // Utility functions
 export const isValidVoice = (voice: string): voice is VoiceOption => {
   return VOICE_OPTIONS.includes(voice as VoiceOption);
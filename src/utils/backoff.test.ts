@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { BackoffPolicy } from '../types';
+import { getBackoffDelay } from './backoff';
+
+const POLICY: BackoffPolicy = { maxAttempts: 8, baseDelayMs: 1000, maxDelayMs: 10000, jitter: true };
+
+describe('getBackoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    [1, 1000],
+    [2, 2000],
+    [3, 4000],
+    [4, 8000],
+    [5, 10000],
+    [8, 10000]
+  ])('doubles the delay up to the cap without jitter (attempt %i: %i ms)', (attempt, expected) => {
+    expect(getBackoffDelay(attempt, { ...POLICY, jitter: false })).toBe(expected);
+  });
+
+  it.each([
+    [1, 500, 1000],
+    [3, 2000, 4000],
+    [6, 5000, 10000]
+  ])('keeps attempt %i between %i and %i ms with jitter', (attempt, min, max) => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getBackoffDelay(attempt, POLICY)).toBe(min);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(getBackoffDelay(attempt, POLICY)).toBe(max);
+  });
+
+  it('never exceeds the cap', () => {
+    for (let attempt = 1; attempt <= 20; attempt++) {
+      const delay = getBackoffDelay(attempt, POLICY);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(POLICY.maxDelayMs);
+    }
+  });
+});
@@ -0,0 +1,14 @@
+import type { BackoffPolicy } from '../types';
+
+/**
+ * Exponential backoff delay for a 1-based attempt number.
+ * Equal jitter (half the delay plus a random half) spreads simultaneous clients
+ * (e.g. a whole sales floor after an outage) while still waiting at least half the delay.
+ */
+export const getBackoffDelay = (attempt: number, policy: BackoffPolicy): number => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  if (!policy.jitter) {
+    return exponential;
+  }
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+};
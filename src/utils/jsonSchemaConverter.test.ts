@@ -0,0 +1,260 @@
+import { describe, expect, it } from 'vitest';
+import { Type } from '@google/genai';
+import type { Schema } from '@google/genai';
+import type { DroppedSchemaConstruct } from '../types';
+import { convertJsonSchemaToGemini } from './jsonSchemaConverter';
+
+interface SchemaFixture {
+  tool: string;
+  input: Record<string, unknown>;
+  expected: Schema;
+  dropped: DroppedSchemaConstruct[];
+}
+
+// Input schemas as published by the SAP OTC MCP server, with the Gemini schema each must become
+const FIXTURES: SchemaFixture[] = [
+  {
+    tool: 'getSalesOrder ($ref with a sibling description, closed object)',
+    input: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        salesOrder: { $ref: '#/$defs/SalesOrderNumber', description: 'Sales order to read' },
+        includeItems: { type: 'boolean', default: true }
+      },
+      required: ['salesOrder'],
+      additionalProperties: false,
+      $defs: {
+        SalesOrderNumber: {
+          type: 'string',
+          maxLength: 10,
+          pattern: '^[0-9]{1,10}$',
+          description: 'SAP sales document number (VBELN)'
+        }
+      }
+    },
+    expected: {
+      type: Type.OBJECT,
+      properties: {
+        salesOrder: { type: Type.STRING, description: 'Sales order to read', maxLength: '10', pattern: '^[0-9]{1,10}$' },
+        includeItems: { type: Type.BOOLEAN, default: true }
+      },
+      propertyOrdering: ['salesOrder', 'includeItems'],
+      required: ['salesOrder']
+    },
+    dropped: []
+  },
+  {
+    tool: 'createSalesOrder (nested arrays, string enums, nullable type and anyOf with null)',
+    input: {
+      type: 'object',
+      properties: {
+        customer: { type: 'string', description: 'Sold-to party (KUNNR)', maxLength: 10 },
+        salesOrderType: { type: 'string', enum: ['OR', 'RO', 'CR'], default: 'OR' },
+        requestedDeliveryDate: { type: ['string', 'null'], format: 'date' },
+        items: { type: 'array', minItems: 1, items: { $ref: '#/$defs/Item' } },
+        shipTo: {
+          anyOf: [{ $ref: '#/$defs/Partner' }, { type: 'null' }],
+          description: 'Ship-to party, defaults to the sold-to party'
+        }
+      },
+      required: ['customer', 'items'],
+      $defs: {
+        Item: {
+          type: 'object',
+          properties: {
+            material: { type: 'string' },
+            quantity: { type: 'number', exclusiveMinimum: 0 },
+            unit: { type: 'string', enum: ['EA', 'PC', 'KG'] },
+            schedule: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { date: { type: 'string', format: 'date-time' }, quantity: { type: 'number' } },
+                required: ['date']
+              }
+            }
+          },
+          required: ['material', 'quantity']
+        },
+        Partner: {
+          type: 'object',
+          properties: { partner: { type: 'string' }, role: { type: 'string', const: 'WE' } },
+          required: ['partner']
+        }
+      }
+    },
+    expected: {
+      type: Type.OBJECT,
+      properties: {
+        customer: { type: Type.STRING, description: 'Sold-to party (KUNNR)', maxLength: '10' },
+        salesOrderType: { type: Type.STRING, enum: ['OR', 'RO', 'CR'], format: 'enum', default: 'OR' },
+        requestedDeliveryDate: { type: Type.STRING, nullable: true, description: 'format: date' },
+        items: {
+          type: Type.ARRAY,
+          minItems: '1',
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              material: { type: Type.STRING },
+              quantity: { type: Type.NUMBER, minimum: 0 },
+              unit: { type: Type.STRING, enum: ['EA', 'PC', 'KG'], format: 'enum' },
+              schedule: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: { date: { type: Type.STRING, format: 'date-time' }, quantity: { type: Type.NUMBER } },
+                  propertyOrdering: ['date', 'quantity'],
+                  required: ['date']
+                }
+              }
+            },
+            propertyOrdering: ['material', 'quantity', 'unit', 'schedule'],
+            required: ['material', 'quantity']
+          }
+        },
+        shipTo: {
+          type: Type.OBJECT,
+          description: 'Ship-to party, defaults to the sold-to party',
+          nullable: true,
+          properties: {
+            partner: { type: Type.STRING },
+            role: { type: Type.STRING, enum: ['WE'], format: 'enum' }
+          },
+          propertyOrdering: ['partner', 'role'],
+          required: ['partner']
+        }
+      },
+      propertyOrdering: ['customer', 'salesOrderType', 'requestedDeliveryDate', 'items', 'shipTo'],
+      required: ['customer', 'items']
+    },
+    dropped: [
+      { path: '/properties/requestedDeliveryDate', keyword: 'format', reason: 'format "date" moved to the description' },
+      { path: '/properties/items/items/properties/quantity', keyword: 'exclusiveMinimum', reason: 'approximated as minimum' }
+    ]
+  },
+  {
+    tool: 'searchCustomers (oneOf of search modes, bounded integer)',
+    input: {
+      type: 'object',
+      properties: {
+        query: {
+          oneOf: [
+            { type: 'object', title: 'ByNumber', properties: { customer: { type: 'string' } }, required: ['customer'] },
+            {
+              type: 'object',
+              title: 'ByName',
+              properties: { name: { type: 'string', minLength: 2 }, city: { type: 'string' } },
+              required: ['name']
+            }
+          ]
+        },
+        maxResults: { type: 'integer', format: 'int32', minimum: 1, maximum: 100, default: 20 }
+      }
+    },
+    expected: {
+      type: Type.OBJECT,
+      properties: {
+        query: {
+          anyOf: [
+            {
+              type: Type.OBJECT,
+              title: 'ByNumber',
+              properties: { customer: { type: Type.STRING } },
+              propertyOrdering: ['customer'],
+              required: ['customer']
+            },
+            {
+              type: Type.OBJECT,
+              title: 'ByName',
+              properties: { name: { type: Type.STRING, minLength: '2' }, city: { type: Type.STRING } },
+              propertyOrdering: ['name', 'city'],
+              required: ['name']
+            }
+          ]
+        },
+        maxResults: { type: Type.INTEGER, format: 'int32', minimum: 1, maximum: 100, default: 20 }
+      },
+      propertyOrdering: ['query', 'maxResults']
+    },
+    dropped: [
+      { path: '/properties/query', keyword: 'oneOf', reason: 'exclusivity not supported, converted to anyOf' }
+    ]
+  },
+  {
+    tool: 'getMaterialAvailability (allOf with $ref, numeric enum, multi-type property)',
+    input: {
+      type: 'object',
+      allOf: [
+        { $ref: '#/definitions/PlantScope' },
+        { properties: { material: { type: 'string' } }, required: ['material'] }
+      ],
+      properties: {
+        checkingRule: { type: 'integer', enum: [1, 2, 3], description: 'ATP checking rule' },
+        quantity: { type: ['number', 'string'] }
+      },
+      definitions: {
+        PlantScope: { properties: { plant: { type: 'string', maxLength: 4 } }, required: ['plant'] }
+      }
+    },
+    expected: {
+      type: Type.OBJECT,
+      properties: {
+        checkingRule: { type: Type.INTEGER, description: 'ATP checking rule (allowed values: 1, 2, 3)' },
+        quantity: { anyOf: [{ type: Type.NUMBER }, { type: Type.STRING }] },
+        plant: { type: Type.STRING, maxLength: '4' },
+        material: { type: Type.STRING }
+      },
+      propertyOrdering: ['checkingRule', 'quantity', 'plant', 'material'],
+      required: ['plant', 'material']
+    },
+    dropped: [
+      { path: '/properties/checkingRule', keyword: 'enum', reason: 'non-string values moved to the description' }
+    ]
+  },
+  {
+    tool: 'getBillOfMaterial (recursive $ref)',
+    input: {
+      type: 'object',
+      properties: { root: { $ref: '#/$defs/BomNode' } },
+      $defs: {
+        BomNode: {
+          type: 'object',
+          properties: {
+            component: { type: 'string' },
+            children: { type: 'array', items: { $ref: '#/$defs/BomNode' } }
+          }
+        }
+      }
+    },
+    expected: {
+      type: Type.OBJECT,
+      properties: {
+        root: {
+          type: Type.OBJECT,
+          properties: {
+            component: { type: Type.STRING },
+            children: { type: Type.ARRAY, items: { type: Type.OBJECT } }
+          },
+          propertyOrdering: ['component', 'children']
+        }
+      },
+      propertyOrdering: ['root']
+    },
+    dropped: [
+      {
+        path: '/properties/root/properties/children/items',
+        keyword: '$ref',
+        reason: 'recursive reference #/$defs/BomNode cut off'
+      }
+    ]
+  }
+];
+
+describe('convertJsonSchemaToGemini', () => {
+  it.each(FIXTURES)('converts $tool', ({ input, expected, dropped }) => {
+    const result = convertJsonSchemaToGemini(input);
+    expect(result.schema).toEqual(expected);
+    expect(result.dropped).toEqual(dropped);
+  });
+});
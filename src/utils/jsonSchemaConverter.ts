@@ -0,0 +1,319 @@
+import { Type } from '@google/genai';
+import type { Schema } from '@google/genai';
+import type { DroppedSchemaConstruct, SchemaConversionResult } from '../types';
+
+type JsonSchemaNode = Record<string, unknown>;
+
+interface ConversionContext {
+  root: JsonSchemaNode;
+  dropped: DroppedSchemaConstruct[];
+  // $refs being inlined on the current branch; a repeat means recursion
+  refStack: string[];
+}
+
+const TYPE_MAP: Record<string, Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+  null: Type.NULL
+};
+
+// Formats the Gemini schema accepts per type; others survive as a description hint
+const SUPPORTED_FORMATS: Partial<Record<Type, string[]>> = {
+  [Type.STRING]: ['enum', 'date-time'],
+  [Type.NUMBER]: ['float', 'double'],
+  [Type.INTEGER]: ['int32', 'int64']
+};
+
+// Keywords that carry no meaning for the model and are dropped without a report
+const SILENT_KEYWORDS = new Set([
+  '$schema', '$id', '$anchor', '$comment', '$defs', 'definitions', 'readOnly', 'writeOnly', 'deprecated'
+]);
+
+// Keywords this converter maps; anything else is reported as dropped
+const HANDLED_KEYWORDS = new Set([
+  'type', 'title', 'description', 'default', 'examples', 'enum', 'const', 'format', 'nullable',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'minLength', 'maxLength', 'pattern',
+  'items', 'minItems', 'maxItems', 'properties', 'required', 'minProperties', 'maxProperties',
+  'additionalProperties', 'anyOf', 'oneOf', 'allOf', '$ref'
+]);
+
+const isNode = (value: unknown): value is JsonSchemaNode =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const drop = (ctx: ConversionContext, path: string, keyword: string, reason: string) => {
+  ctx.dropped.push({ path: path || '/', keyword, reason });
+};
+
+const appendDescription = (schema: Schema, note: string) => {
+  schema.description = schema.description ? `${schema.description} (${note})` : note;
+};
+
+/**
+ * Resolves a local JSON pointer ('#/$defs/Address') against the root schema
+ */
+export const resolveSchemaRef = (ref: string, root: JsonSchemaNode): JsonSchemaNode | undefined => {
+  if (ref === '#') return root;
+  if (!ref.startsWith('#/')) return undefined;
+
+  let current: unknown = root;
+  for (const token of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+    current = isNode(current) ? current[key] : undefined;
+  }
+  return isNode(current) ? current : undefined;
+};
+
+/**
+ * Merges allOf members into one schema: properties and required are combined,
+ * other keywords keep the first value seen
+ */
+const mergeAllOf = (node: JsonSchemaNode, ctx: ConversionContext, path: string): JsonSchemaNode => {
+  const { allOf, ...rest } = node;
+  let merged: JsonSchemaNode = { ...rest };
+
+  (allOf as unknown[]).forEach((member, index) => {
+    let part = member;
+    if (isNode(part) && typeof part.$ref === 'string') {
+      part = resolveSchemaRef(part.$ref, ctx.root) ?? {};
+    }
+    if (!isNode(part)) {
+      drop(ctx, `${path}/allOf/${index}`, 'allOf', 'non-object member ignored');
+      return;
+    }
+    if (part.allOf) {
+      part = mergeAllOf(part, ctx, `${path}/allOf/${index}`);
+    }
+
+    const partNode = part as JsonSchemaNode;
+    const properties = { ...(merged.properties as JsonSchemaNode ?? {}), ...(partNode.properties as JsonSchemaNode ?? {}) };
+    const required = [...new Set([...(merged.required as string[] ?? []), ...(partNode.required as string[] ?? [])])];
+    merged = { ...partNode, ...merged, properties, required };
+  });
+
+  if (Object.keys(merged.properties as JsonSchemaNode).length === 0) delete merged.properties;
+  if ((merged.required as string[]).length === 0) delete merged.required;
+  return merged;
+};
+
+/**
+ * Converts anyOf/oneOf: null branches become `nullable`, a single remaining
+ * branch is inlined, several become a Gemini anyOf
+ */
+const convertUnion = (
+  schema: Schema,
+  branches: unknown[],
+  keyword: 'anyOf' | 'oneOf',
+  ctx: ConversionContext,
+  path: string
+): Schema => {
+  if (keyword === 'oneOf') {
+    drop(ctx, path, 'oneOf', 'exclusivity not supported, converted to anyOf');
+  }
+
+  const nonNull = branches.filter(branch => !(isNode(branch) && branch.type === 'null'));
+  const nullable = nonNull.length < branches.length;
+
+  if (nonNull.length === 1) {
+    const inlined = convertNode(nonNull[0], ctx, `${path}/${keyword}/${branches.indexOf(nonNull[0])}`);
+    return {
+      ...inlined,
+      ...schema,
+      description: schema.description ?? inlined.description,
+      ...(nullable && { nullable: true })
+    };
+  }
+
+  return {
+    ...schema,
+    anyOf: nonNull.map(branch => convertNode(branch, ctx, `${path}/${keyword}/${branches.indexOf(branch)}`)),
+    ...(nullable && { nullable: true })
+  };
+};
+
+const convertNode = (input: unknown, ctx: ConversionContext, path: string): Schema => {
+  // Boolean schemas: `true` accepts anything, `false` nothing; neither has a Gemini equivalent
+  if (typeof input === 'boolean' || !isNode(input)) {
+    drop(ctx, path, 'schema', `${String(input)} schema treated as an unconstrained string`);
+    return { type: Type.STRING };
+  }
+
+  let node: JsonSchemaNode = input;
+
+  if (typeof node.$ref === 'string') {
+    const ref = node.$ref;
+    if (ctx.refStack.includes(ref)) {
+      drop(ctx, path, '$ref', `recursive reference ${ref} cut off`);
+      return { type: Type.OBJECT, description: typeof node.description === 'string' ? node.description : undefined };
+    }
+
+    const target = resolveSchemaRef(ref, ctx.root);
+    if (!target) {
+      drop(ctx, path, '$ref', `unresolvable reference ${ref}`);
+      return { type: Type.STRING };
+    }
+
+    // Sibling keywords (e.g. a description) override the referenced schema
+    const { $ref: _ref, ...siblings } = node;
+    void _ref;
+    ctx.refStack.push(ref);
+    try {
+      return convertNode({ ...target, ...siblings }, ctx, path);
+    } finally {
+      ctx.refStack.pop();
+    }
+  }
+
+  if (Array.isArray(node.allOf)) {
+    node = mergeAllOf(node, ctx, path);
+  }
+
+  for (const keyword of Object.keys(node)) {
+    if (!HANDLED_KEYWORDS.has(keyword) && !SILENT_KEYWORDS.has(keyword)) {
+      drop(ctx, path, keyword, 'not supported by the Gemini schema');
+    }
+  }
+
+  const schema: Schema = {};
+  if (typeof node.title === 'string') schema.title = node.title;
+  if (typeof node.description === 'string') schema.description = node.description;
+  if (node.default !== undefined) schema.default = node.default;
+  if (Array.isArray(node.examples) && node.examples.length > 0) schema.example = node.examples[0];
+
+  // Type: ["string", "null"] becomes a nullable string; several real types become anyOf
+  const declaredTypes = (Array.isArray(node.type) ? node.type : node.type !== undefined ? [node.type] : [])
+    .filter((type): type is string => typeof type === 'string');
+  const nonNullTypes = declaredTypes.filter(type => type !== 'null');
+  if (declaredTypes.includes('null') || node.nullable === true) schema.nullable = true;
+
+  if (nonNullTypes.length > 1) {
+    const { type: _type, ...withoutType } = node;
+    void _type;
+    return {
+      ...schema,
+      anyOf: nonNullTypes.map(type => convertNode({ ...withoutType, type }, ctx, path))
+    };
+  }
+
+  const unionKeyword = Array.isArray(node.anyOf) ? 'anyOf' : Array.isArray(node.oneOf) ? 'oneOf' : null;
+  if (unionKeyword && nonNullTypes.length === 0) {
+    return convertUnion(schema, node[unionKeyword] as unknown[], unionKeyword, ctx, path);
+  }
+  if (unionKeyword) {
+    drop(ctx, path, unionKeyword, 'ignored alongside an explicit type');
+  }
+
+  let jsonType = nonNullTypes[0];
+  if (!jsonType) {
+    // Infer the type from the keywords present, as most validators effectively do
+    if (isNode(node.properties)) jsonType = 'object';
+    else if (node.items !== undefined) jsonType = 'array';
+    else if (Array.isArray(node.enum) || node.const !== undefined) jsonType = typeof (node.enum as unknown[] | undefined)?.[0] === 'number' ? 'number' : 'string';
+    else if (declaredTypes.includes('null')) jsonType = 'null';
+    else {
+      drop(ctx, path, 'type', 'missing type treated as string');
+      jsonType = 'string';
+    }
+  }
+
+  if (!TYPE_MAP[jsonType]) {
+    drop(ctx, path, 'type', `unknown type "${jsonType}" treated as string`);
+  }
+  const type = TYPE_MAP[jsonType] ?? Type.STRING;
+  schema.type = type;
+
+  // Enum/const: Gemini only takes string enums
+  const enumValues = Array.isArray(node.enum) ? node.enum : node.const !== undefined ? [node.const] : null;
+  if (enumValues) {
+    if (type === Type.STRING && enumValues.every(value => typeof value === 'string')) {
+      schema.enum = enumValues as string[];
+      schema.format = 'enum';
+    } else {
+      drop(ctx, path, node.const !== undefined ? 'const' : 'enum', 'non-string values moved to the description');
+      appendDescription(schema, `allowed values: ${enumValues.map(value => JSON.stringify(value)).join(', ')}`);
+    }
+  }
+
+  if (typeof node.format === 'string' && !schema.format) {
+    if (SUPPORTED_FORMATS[type]?.includes(node.format)) {
+      schema.format = node.format;
+    } else {
+      drop(ctx, path, 'format', `format "${node.format}" moved to the description`);
+      appendDescription(schema, `format: ${node.format}`);
+    }
+  }
+
+  // Numeric constraints; exclusive bounds are approximated as inclusive
+  if (typeof node.minimum === 'number') schema.minimum = node.minimum;
+  if (typeof node.maximum === 'number') schema.maximum = node.maximum;
+  if (typeof node.exclusiveMinimum === 'number') {
+    schema.minimum = Math.max(schema.minimum ?? -Infinity, node.exclusiveMinimum);
+    drop(ctx, path, 'exclusiveMinimum', 'approximated as minimum');
+  }
+  if (typeof node.exclusiveMaximum === 'number') {
+    schema.maximum = Math.min(schema.maximum ?? Infinity, node.exclusiveMaximum);
+    drop(ctx, path, 'exclusiveMaximum', 'approximated as maximum');
+  }
+
+  // The Gemini schema encodes length/count constraints as int64 strings
+  if (typeof node.minLength === 'number') schema.minLength = String(node.minLength);
+  if (typeof node.maxLength === 'number') schema.maxLength = String(node.maxLength);
+  if (typeof node.pattern === 'string') schema.pattern = node.pattern;
+
+  if (type === Type.ARRAY) {
+    if (node.items !== undefined && !Array.isArray(node.items)) {
+      schema.items = convertNode(node.items, ctx, `${path}/items`);
+    } else {
+      if (Array.isArray(node.items)) drop(ctx, path, 'items', 'tuple items not supported');
+      drop(ctx, `${path}/items`, 'items', 'missing item schema treated as string');
+      schema.items = { type: Type.STRING };
+    }
+    if (typeof node.minItems === 'number') schema.minItems = String(node.minItems);
+    if (typeof node.maxItems === 'number') schema.maxItems = String(node.maxItems);
+  }
+
+  if (type === Type.OBJECT) {
+    if (isNode(node.properties)) {
+      schema.properties = {};
+      for (const [name, property] of Object.entries(node.properties)) {
+        schema.properties[name] = convertNode(property, ctx, `${path}/properties/${name}`);
+      }
+      schema.propertyOrdering = Object.keys(schema.properties);
+    }
+
+    if (Array.isArray(node.required)) {
+      const known = node.required.filter((name): name is string =>
+        typeof name === 'string' && !!schema.properties && name in schema.properties
+      );
+      if (known.length < node.required.length) {
+        drop(ctx, path, 'required', 'names without a property schema removed');
+      }
+      if (known.length > 0) schema.required = known;
+    }
+
+    if (typeof node.minProperties === 'number') schema.minProperties = String(node.minProperties);
+    if (typeof node.maxProperties === 'number') schema.maxProperties = String(node.maxProperties);
+    if (node.additionalProperties !== undefined && node.additionalProperties !== false) {
+      drop(ctx, path, 'additionalProperties', 'open-ended objects not supported');
+    }
+  }
+
+  return schema;
+};
+
+/**
+ * Converts a JSON Schema (draft 2020-12) into the Gemini `Type`-based schema.
+ * Local $refs are inlined, unions flattened, and every construct that could not
+ * be expressed is listed in `dropped`.
+ */
+export const convertJsonSchemaToGemini = (jsonSchema: unknown): SchemaConversionResult => {
+  const ctx: ConversionContext = {
+    root: isNode(jsonSchema) ? jsonSchema : {},
+    dropped: [],
+    refStack: []
+  };
+  return { schema: convertNode(jsonSchema, ctx, ''), dropped: ctx.dropped };
+};
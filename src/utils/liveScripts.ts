@@ -0,0 +1,57 @@
+import type { LiveScript } from '../types';
+
+/**
+ * Base64 of silent 24 kHz 16-bit mono PCM (zero bytes encode to 'A').
+ * Duration must keep the byte count a multiple of 3 to avoid padding.
+ */
+const silentAudio = (ms: number): string => 'A'.repeat((24000 * 2 * ms / 1000) * 4 / 3);
+
+const audioPart = (ms: number) => ({
+  inlineData: { mimeType: 'audio/pcm;rate=24000', data: silentAudio(ms) }
+});
+
+/**
+ * Recorded sales order lookup: transcription → tool call → spoken answer,
+ * followed by a user interruption. Used by the 'scripted' transport for
+ * offline demos and pipeline testing without an API key.
+ */
+export const DEMO_LIVE_SCRIPT: LiveScript = {
+  name: 'sales-order-lookup',
+  steps: [
+    { message: { setupComplete: {} } },
+    { delayMs: 500, message: { serverContent: { inputTranscription: { text: 'Amy, ¿cuál es el estado ' } } } },
+    { delayMs: 400, message: { serverContent: { inputTranscription: { text: 'de la orden 12345?' } } } },
+    {
+      delayMs: 300,
+      message: {
+        toolCall: {
+          functionCalls: [{ id: 'scripted-call-1', name: 'getSalesOrder', args: { SalesOrder: '12345' } }]
+        }
+      }
+    },
+    {
+      trigger: 'toolResponse',
+      delayMs: 200,
+      message: {
+        serverContent: {
+          outputTranscription: { text: 'La orden 12345 está en proceso de entrega.' },
+          modelTurn: { parts: [audioPart(100)] }
+        }
+      }
+    },
+    { delayMs: 100, message: { serverContent: { modelTurn: { parts: [audioPart(100)] } } } },
+    { delayMs: 100, message: { serverContent: { turnComplete: true } } },
+    { delayMs: 1500, message: { serverContent: { inputTranscription: { text: 'Amy, y el cliente' } } } },
+    {
+      delayMs: 200,
+      message: {
+        serverContent: {
+          outputTranscription: { text: 'Claro, la orden pertenece' },
+          modelTurn: { parts: [audioPart(100)] }
+        }
+      }
+    },
+    { delayMs: 100, message: { serverContent: { interrupted: true } } },
+    { delayMs: 100, message: { serverContent: { turnComplete: true } } }
+  ]
+};
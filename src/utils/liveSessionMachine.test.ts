@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest';
+import type { AppState, LiveSessionCommand, LiveSessionEvent, LiveSessionState } from '../types';
+import { INITIAL_LIVE_SESSION_STATE, mapServerMessageToEvents, reduceLiveSession } from './liveSessionMachine';
+
+// Reduces the events in order, collecting every command they produce
+const run = (from: LiveSessionState, events: LiveSessionEvent[]) =>
+  events.reduce(
+    ({ state, commands }, event) => {
+      const transition = reduceLiveSession(state, event);
+      return { state: transition.state, commands: [...commands, ...transition.commands] };
+    },
+    { state: from, commands: [] as LiveSessionCommand[] }
+  );
+
+const LISTENING = run(INITIAL_LIVE_SESSION_STATE, [{ type: 'CONNECTED' }, { type: 'SETUP_COMPLETE' }]).state;
+const RECONNECTING = run(LISTENING, [{ type: 'CONNECTION_LOST', reason: 'network' }]).state;
+
+const call = (id: string, name = 'getSalesOrder') => ({ id, name, args: {} });
+const toolCall = (ids: string[], nonBlockingIds: string[] = []): LiveSessionEvent => ({
+  type: 'TOOL_CALL',
+  functionCalls: ids.map(id => call(id)),
+  nonBlockingIds
+});
+
+interface TransitionCase {
+  name: string;
+  from: LiveSessionState;
+  events: LiveSessionEvent[];
+  appState: AppState;
+  commands: LiveSessionCommand[];
+  state?: Partial<LiveSessionState>;
+}
+
+const CASES: TransitionCase[] = [
+  {
+    name: 'speaks while audio plays and listens again once the turn is complete and playback drained',
+    from: LISTENING,
+    events: [{ type: 'AUDIO_RECEIVED', data: 'pcm' }, { type: 'TURN_COMPLETE' }, { type: 'PLAYBACK_DRAINED' }],
+    appState: 'LISTENING',
+    commands: [{ type: 'PLAY_AUDIO', data: 'pcm' }]
+  },
+  {
+    name: 'keeps speaking after turn complete until playback drains',
+    from: LISTENING,
+    events: [{ type: 'AUDIO_RECEIVED', data: 'pcm' }, { type: 'TURN_COMPLETE' }],
+    appState: 'SPEAKING',
+    commands: [{ type: 'PLAY_AUDIO', data: 'pcm' }]
+  },
+  {
+    name: 'stops playback and listens on an interruption',
+    from: LISTENING,
+    events: [{ type: 'AUDIO_RECEIVED', data: 'pcm' }, { type: 'INTERRUPTED' }],
+    appState: 'LISTENING',
+    commands: [{ type: 'PLAY_AUDIO', data: 'pcm' }, { type: 'STOP_PLAYBACK' }]
+  },
+  {
+    name: 'processes while a blocking tool call is in flight',
+    from: LISTENING,
+    events: [toolCall(['a'])],
+    appState: 'PROCESSING',
+    commands: [{ type: 'EXECUTE_TOOLS', functionCalls: [call('a')] }],
+    state: { pendingToolCallIds: ['a'] }
+  },
+  {
+    name: 'listens again once the blocking tool call settles',
+    from: LISTENING,
+    events: [toolCall(['a']), { type: 'TOOL_CALLS_SETTLED', ids: ['a'] }],
+    appState: 'LISTENING',
+    commands: [{ type: 'EXECUTE_TOOLS', functionCalls: [call('a')] }],
+    state: { pendingToolCallIds: [] }
+  },
+  {
+    name: 'keeps listening while a non-blocking tool call runs',
+    from: LISTENING,
+    events: [toolCall(['a'], ['a'])],
+    appState: 'LISTENING',
+    commands: [{ type: 'EXECUTE_TOOLS', functionCalls: [call('a')] }],
+    state: { pendingToolCallIds: [] }
+  },
+  {
+    name: 'only waits for the blocking calls of a mixed tool call',
+    from: LISTENING,
+    events: [toolCall(['a', 'b'], ['b'])],
+    appState: 'PROCESSING',
+    commands: [{ type: 'EXECUTE_TOOLS', functionCalls: [call('a'), call('b')] }],
+    state: { pendingToolCallIds: ['a'] }
+  },
+  {
+    name: 'stops waiting for a tool call the server cancelled',
+    from: LISTENING,
+    events: [toolCall(['a', 'b']), { type: 'TOOL_CALL_CANCELLED', ids: ['a'] }],
+    appState: 'PROCESSING',
+    commands: [
+      { type: 'EXECUTE_TOOLS', functionCalls: [call('a'), call('b')] },
+      { type: 'CANCEL_TOOLS', ids: ['a'] }
+    ],
+    state: { pendingToolCallIds: ['b'] }
+  },
+  {
+    name: 'reconnects at once on goAway while listening',
+    from: LISTENING,
+    events: [{ type: 'GO_AWAY', timeLeft: '10s' }],
+    appState: 'RECONNECTING',
+    commands: [{ type: 'RECONNECT', reason: 'go-away' }],
+    state: { isGoAwayPending: false, isReconnecting: true }
+  },
+  {
+    name: 'defers goAway while the model is speaking',
+    from: LISTENING,
+    events: [{ type: 'AUDIO_RECEIVED', data: 'pcm' }, { type: 'GO_AWAY', timeLeft: '10s' }],
+    appState: 'SPEAKING',
+    commands: [{ type: 'PLAY_AUDIO', data: 'pcm' }],
+    state: { isGoAwayPending: true, isReconnecting: false }
+  },
+  {
+    name: 'honours a deferred goAway once the answer has played out',
+    from: LISTENING,
+    events: [
+      { type: 'AUDIO_RECEIVED', data: 'pcm' },
+      { type: 'GO_AWAY', timeLeft: '10s' },
+      { type: 'TURN_COMPLETE' },
+      { type: 'PLAYBACK_DRAINED' }
+    ],
+    appState: 'RECONNECTING',
+    commands: [{ type: 'PLAY_AUDIO', data: 'pcm' }, { type: 'RECONNECT', reason: 'go-away' }],
+    state: { isGoAwayPending: false }
+  },
+  {
+    name: 'defers goAway until a blocking tool call settles',
+    from: LISTENING,
+    events: [toolCall(['a']), { type: 'GO_AWAY' }, { type: 'TOOL_CALLS_SETTLED', ids: ['a'] }],
+    appState: 'RECONNECTING',
+    commands: [{ type: 'EXECUTE_TOOLS', functionCalls: [call('a')] }, { type: 'RECONNECT', reason: 'go-away' }]
+  },
+  {
+    name: 'reconnects when a connected session is lost, keeping its pending tool calls',
+    from: LISTENING,
+    events: [toolCall(['a']), { type: 'CONNECTION_LOST', reason: 'network' }],
+    appState: 'RECONNECTING',
+    commands: [
+      { type: 'EXECUTE_TOOLS', functionCalls: [call('a')] },
+      { type: 'STOP_AUDIO_STREAMING' },
+      { type: 'RECONNECT', reason: 'connection-lost' }
+    ],
+    state: { isConnected: false, isReconnecting: true, pendingToolCallIds: ['a'] }
+  },
+  {
+    name: 'reports a session lost before it opened instead of reconnecting',
+    from: INITIAL_LIVE_SESSION_STATE,
+    events: [{ type: 'CONNECTION_LOST', reason: 'refused' }],
+    appState: 'IDLE',
+    commands: [
+      {
+        type: 'REPORT_ERROR',
+        error: { type: 'CONNECTION', message: 'Could not connect to Gemini Live', details: { reason: 'refused' } }
+      },
+      { type: 'STOP_AUDIO_STREAMING' }
+    ],
+    state: { isReconnecting: false }
+  },
+  {
+    name: 'ignores a lost connection while already reconnecting',
+    from: RECONNECTING,
+    events: [{ type: 'CONNECTION_LOST', reason: 'network' }],
+    appState: 'RECONNECTING',
+    commands: []
+  },
+  {
+    name: 'listens again when the reconnect opens',
+    from: RECONNECTING,
+    events: [{ type: 'CONNECTED' }],
+    appState: 'LISTENING',
+    commands: [],
+    state: { isReconnecting: false }
+  },
+  {
+    name: 'cancels a pending reconnect on reset',
+    from: RECONNECTING,
+    events: [{ type: 'RESET' }],
+    appState: 'IDLE',
+    commands: [{ type: 'CANCEL_RECONNECT' }],
+    state: INITIAL_LIVE_SESSION_STATE
+  }
+];
+
+describe('reduceLiveSession', () => {
+  it.each(CASES)('$name', ({ from, events, appState, commands, state }) => {
+    const result = run(from, events);
+    expect(result.state.appState).toBe(appState);
+    expect(result.commands).toEqual(commands);
+    if (state) {
+      expect(result.state).toMatchObject(state);
+    }
+  });
+});
+
+describe('mapServerMessageToEvents', () => {
+  it('marks non-blocking tools and gives calls without an id distinct ids', () => {
+    const [event] = mapServerMessageToEvents(
+      { toolCall: { functionCalls: [{ name: 'getSalesOrder' }, { name: 'exportReport' }] } },
+      name => name === 'exportReport'
+    );
+
+    expect(event.type).toBe('TOOL_CALL');
+    if (event.type !== 'TOOL_CALL') return;
+    const [first, second] = event.functionCalls;
+    expect(first.id).not.toBe('');
+    expect(first.id).not.toBe(second.id);
+    expect(event.nonBlockingIds).toEqual([second.id]);
+  });
+
+  it('keeps the order transcription, audio, interruption, turn complete', () => {
+    const events = mapServerMessageToEvents({
+      serverContent: {
+        outputTranscription: { text: 'La orden' },
+        modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm', data: 'pcm' } }] },
+        interrupted: true,
+        turnComplete: true
+      }
+    });
+
+    expect(events.map(event => event.type)).toEqual(['OUTPUT_TRANSCRIPTION', 'AUDIO_RECEIVED', 'INTERRUPTED', 'TURN_COMPLETE']);
+  });
+});
@@ -0,0 +1,275 @@
+import type {
+  AppState,
+  FunctionCall,
+  LiveServerPayload,
+  LiveSessionCommand,
+  LiveSessionEvent,
+  LiveSessionState,
+  LiveSessionTransition
+} from '../types';
+
+/**
+ * Pure session engine for a Gemini Live conversation.
+ * Events describe what happened (server messages, playback, tool results);
+ * the reducer returns the next state plus the side effects the hook must run.
+ */
+export const INITIAL_LIVE_SESSION_STATE: LiveSessionState = {
+  appState: 'IDLE',
+  isConnected: false,
+  isSetupComplete: false,
+  pendingToolCallIds: [],
+  isModelTurnActive: false,
+  isPlaybackActive: false,
+  isAwaitingResponse: false,
+  isReconnecting: false,
+  isGoAwayPending: false
+};
+
+/**
+ * Derives the visible AppState from the session flags.
+ * Tool calls take precedence: the model cannot continue until they are answered.
+ */
+export const deriveAppState = (state: Omit<LiveSessionState, 'appState'>): AppState => {
+  if (state.isReconnecting) return 'RECONNECTING';
+  if (!state.isConnected) return 'IDLE';
+  if (state.pendingToolCallIds.length > 0) return 'PROCESSING';
+  if (state.isModelTurnActive || state.isPlaybackActive) return 'SPEAKING';
+  if (state.isAwaitingResponse) return 'PROCESSING';
+  return 'LISTENING';
+};
+
+const transition = (
+  state: LiveSessionState,
+  changes: Partial<Omit<LiveSessionState, 'appState'>>,
+  commands: LiveSessionCommand[] = []
+): LiveSessionTransition => {
+  let next = { ...state, ...changes };
+  let appState = deriveAppState(next);
+
+  // A pending goAway is honoured at the first idle moment, so no answer is cut off
+  if (next.isGoAwayPending && appState === 'LISTENING') {
+    next = { ...next, isGoAwayPending: false, isReconnecting: true };
+    appState = deriveAppState(next);
+    commands = [...commands, { type: 'RECONNECT', reason: 'go-away' }];
+  }
+
+  return { state: { ...next, appState }, commands };
+};
+
+/**
+ * Reduces a session event into the next state and the commands to execute
+ */
+export const reduceLiveSession = (state: LiveSessionState, event: LiveSessionEvent): LiveSessionTransition => {
+  switch (event.type) {
+    case 'CONNECTED':
+      return transition(state, { isConnected: true, isReconnecting: false, isGoAwayPending: false });
+
+    case 'SETUP_COMPLETE':
+      return transition(state, { isSetupComplete: true });
+
+    case 'INPUT_TRANSCRIPTION':
+      return transition(state, {}, [{ type: 'APPEND_TRANSCRIPT', role: 'user', text: event.text }]);
+
+    case 'OUTPUT_TRANSCRIPTION':
+      return transition(
+        state,
+        { isModelTurnActive: true, isAwaitingResponse: false },
+        [{ type: 'APPEND_TRANSCRIPT', role: 'assistant', text: event.text }]
+      );
+
+    case 'AUDIO_RECEIVED':
+      return transition(
+        state,
+        { isModelTurnActive: true, isPlaybackActive: true, isAwaitingResponse: false },
+        [{ type: 'PLAY_AUDIO', data: event.data }]
+      );
+
+    case 'PLAYBACK_DRAINED':
+      return transition(state, { isPlaybackActive: false });
+
+    case 'TURN_COMPLETE':
+      // Playback may still be draining; PLAYBACK_DRAINED returns us to LISTENING
+      return transition(state, { isModelTurnActive: false, isAwaitingResponse: false });
+
+    case 'INTERRUPTED':
+      return transition(
+        state,
+        { isModelTurnActive: false, isPlaybackActive: false },
+        [{ type: 'STOP_PLAYBACK' }]
+      );
+
+    case 'TOOL_CALL':
+      // Non-blocking calls run in the background, so the conversation keeps flowing
+      return transition(
+        state,
+        {
+          pendingToolCallIds: [
+            ...state.pendingToolCallIds,
+            ...event.functionCalls.map(call => call.id).filter(id => !event.nonBlockingIds.includes(id))
+          ],
+          isAwaitingResponse: false
+        },
+        [{ type: 'EXECUTE_TOOLS', functionCalls: event.functionCalls }]
+      );
+
+    case 'TOOL_CALLS_SETTLED':
+      return transition(state, {
+        pendingToolCallIds: state.pendingToolCallIds.filter(id => !event.ids.includes(id))
+      });
+
+    case 'TOOL_CALL_CANCELLED':
+      // The server no longer expects these responses; stop waiting for them
+      return transition(
+        state,
+        { pendingToolCallIds: state.pendingToolCallIds.filter(id => !event.ids.includes(id)) },
+        [{ type: 'CANCEL_TOOLS', ids: event.ids }]
+      );
+
+    case 'TEXT_SENT':
+      return transition(state, { isAwaitingResponse: true });
+
+    case 'RESUMPTION_UPDATE':
+      // Handles are only usable while the session is resumable (not mid-generation or mid-tool)
+      return transition(
+        state,
+        {},
+        event.resumable && event.handle ? [{ type: 'STORE_RESUMPTION_HANDLE', handle: event.handle }] : []
+      );
+
+    case 'GO_AWAY':
+      if (!state.isConnected || state.isReconnecting) {
+        return { state, commands: [] };
+      }
+      return transition(state, { isGoAwayPending: true });
+
+    case 'USAGE_UPDATE':
+      return transition(state, {}, [{ type: 'RECORD_USAGE', contextTokens: event.contextTokens }]);
+
+    case 'CONNECTION_LOST':
+      // A reconnect attempt that fails before opening rejects its connect, which schedules the next attempt
+      if (state.isReconnecting) {
+        return { state, commands: [] };
+      }
+      // A session that never opened has nothing to resume: report it instead of retrying in the background
+      if (!state.isConnected) {
+        return transition(
+          INITIAL_LIVE_SESSION_STATE,
+          {},
+          [
+            {
+              type: 'REPORT_ERROR',
+              error: { type: 'CONNECTION', message: 'Could not connect to Gemini Live', details: { reason: event.reason } }
+            },
+            { type: 'STOP_AUDIO_STREAMING' }
+          ]
+        );
+      }
+      // Pending tool calls survive: their results are replayed into the resumed session
+      return transition(
+        state,
+        {
+          isConnected: false,
+          isSetupComplete: false,
+          isModelTurnActive: false,
+          isPlaybackActive: false,
+          isAwaitingResponse: false,
+          isReconnecting: true,
+          isGoAwayPending: false
+        },
+        [{ type: 'STOP_AUDIO_STREAMING' }, { type: 'RECONNECT', reason: 'connection-lost' }]
+      );
+
+    case 'RECONNECT_FAILED':
+      return transition(
+        INITIAL_LIVE_SESSION_STATE,
+        {},
+        [{ type: 'REPORT_ERROR', error: event.error }, { type: 'STOP_AUDIO_STREAMING' }]
+      );
+
+    case 'RESET':
+      return transition(INITIAL_LIVE_SESSION_STATE, {}, [{ type: 'CANCEL_RECONNECT' }]);
+
+    default:
+      return { state, commands: [] };
+  }
+};
+
+/**
+ * Translates a LiveServerMessage into session events, in processing order.
+ * `isNonBlockingTool` marks function calls the model does not wait for.
+ */
+export const mapServerMessageToEvents = (
+  message: LiveServerPayload,
+  isNonBlockingTool: (name: string) => boolean = () => false
+): LiveSessionEvent[] => {
+  const events: LiveSessionEvent[] = [];
+
+  if (message.setupComplete) {
+    events.push({ type: 'SETUP_COMPLETE' });
+  }
+
+  const content = message.serverContent;
+  if (content) {
+    const inputText = content.inputTranscription?.text;
+    if (inputText && inputText.trim().length > 0) {
+      events.push({ type: 'INPUT_TRANSCRIPTION', text: inputText });
+    }
+
+    const outputText = content.outputTranscription?.text;
+    if (outputText && outputText.trim().length > 0) {
+      events.push({ type: 'OUTPUT_TRANSCRIPTION', text: outputText });
+    }
+
+    for (const part of content.modelTurn?.parts ?? []) {
+      if (part.inlineData?.data) {
+        events.push({ type: 'AUDIO_RECEIVED', data: part.inlineData.data });
+      }
+    }
+
+    if (content.interrupted) {
+      events.push({ type: 'INTERRUPTED' });
+    }
+
+    if (content.turnComplete) {
+      events.push({ type: 'TURN_COMPLETE' });
+    }
+  }
+
+  if (message.sessionResumptionUpdate) {
+    events.push({
+      type: 'RESUMPTION_UPDATE',
+      handle: message.sessionResumptionUpdate.newHandle,
+      resumable: !!message.sessionResumptionUpdate.resumable
+    });
+  }
+
+  const usage = message.usageMetadata;
+  if (usage && (usage.promptTokenCount || usage.totalTokenCount)) {
+    // promptTokenCount is the size of the context the model just consumed
+    events.push({ type: 'USAGE_UPDATE', contextTokens: usage.promptTokenCount ?? usage.totalTokenCount ?? 0 });
+  }
+
+  if (message.goAway) {
+    events.push({ type: 'GO_AWAY', timeLeft: message.goAway.timeLeft });
+  }
+
+  if (message.toolCall?.functionCalls?.length) {
+    // A call without an id still needs its own, or cancelling one would cancel them all
+    const functionCalls: FunctionCall[] = message.toolCall.functionCalls.map((call, index) => ({
+      id: call.id ?? `unidentified-${Date.now()}-${index}`,
+      name: call.name ?? '',
+      args: call.args ?? {}
+    }));
+    events.push({
+      type: 'TOOL_CALL',
+      functionCalls,
+      nonBlockingIds: functionCalls.filter(call => isNonBlockingTool(call.name)).map(call => call.id)
+    });
+  }
+
+  if (message.toolCallCancellation?.ids?.length) {
+    events.push({ type: 'TOOL_CALL_CANCELLED', ids: message.toolCallCancellation.ids });
+  }
+
+  return events;
+};
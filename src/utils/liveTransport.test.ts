@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Modality } from '@google/genai';
+import type { LiveSessionCommand, LiveSessionEvent, LiveSessionState } from '../types';
+import { INITIAL_LIVE_SESSION_STATE, mapServerMessageToEvents, reduceLiveSession } from './liveSessionMachine';
+import { DEMO_LIVE_SCRIPT } from './liveScripts';
+import { buildBidiRealtimeInputMessage, buildBidiSetupMessage, createScriptedTransport } from './liveTransport';
+
+// One line per command the hook would run, without the audio payloads
+const describeCommand = (command: LiveSessionCommand): string => {
+  switch (command.type) {
+    case 'APPEND_TRANSCRIPT':
+      return `${command.role}: ${command.text}`;
+    case 'EXECUTE_TOOLS':
+      return `tools: ${command.functionCalls.map(call => `${call.name}(${JSON.stringify(call.args)})`).join(', ')}`;
+    default:
+      return command.type;
+  }
+};
+
+describe('createScriptedTransport', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('replays the demo script through the session engine as the hook does', async () => {
+    let state: LiveSessionState = INITIAL_LIVE_SESSION_STATE;
+    const received: string[] = [];
+    const dispatch = (event: LiveSessionEvent) => {
+      const transition = reduceLiveSession(state, event);
+      state = transition.state;
+      received.push(...transition.commands.map(describeCommand));
+    };
+
+    const session = await createScriptedTransport(DEMO_LIVE_SCRIPT).connect({
+      model: 'scripted',
+      config: {},
+      callbacks: {
+        onopen: () => dispatch({ type: 'CONNECTED' }),
+        onmessage: message => mapServerMessageToEvents(message).forEach(dispatch)
+      }
+    });
+
+    // The answer waits for the tool response, however long that takes
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(state.appState).toBe('PROCESSING');
+    expect(state.pendingToolCallIds).toEqual(['scripted-call-1']);
+    expect(received).toEqual([
+      'user: Amy, ¿cuál es el estado ',
+      'user: de la orden 12345?',
+      'tools: getSalesOrder({"SalesOrder":"12345"})'
+    ]);
+
+    session.sendToolResponse({ functionResponses: [{ id: 'scripted-call-1', name: 'getSalesOrder', response: {} }] });
+    dispatch({ type: 'TOOL_CALLS_SETTLED', ids: ['scripted-call-1'] });
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(received.slice(3)).toEqual([
+      'assistant: La orden 12345 está en proceso de entrega.',
+      'PLAY_AUDIO',
+      'PLAY_AUDIO',
+      'user: Amy, y el cliente',
+      'assistant: Claro, la orden pertenece',
+      'PLAY_AUDIO',
+      'STOP_PLAYBACK'
+    ]);
+    expect(state.appState).toBe('LISTENING');
+  });
+
+  it('stops replaying once the client closes the session', async () => {
+    const onmessage = vi.fn();
+    const onclose = vi.fn();
+    const session = await createScriptedTransport(DEMO_LIVE_SCRIPT).connect({
+      model: 'scripted',
+      config: {},
+      callbacks: { onmessage, onclose }
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    session.close();
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(onmessage).toHaveBeenCalledTimes(1);
+    expect(onclose).toHaveBeenCalledWith({ code: 1000, reason: 'Closed by client' });
+  });
+});
+
+describe('BidiGenerateContent wire messages', () => {
+  it('nests generation settings under generationConfig and prefixes the model', () => {
+    const message = buildBidiSetupMessage('gemini-live-2.5-flash-preview', {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
+      systemInstruction: 'Eres Amy',
+      tools: [{ functionDeclarations: [{ name: 'getSalesOrder' }] }],
+      inputAudioTranscription: {},
+      sessionResumption: { handle: 'h1' }
+    });
+
+    expect(message).toEqual({
+      setup: {
+        model: 'models/gemini-live-2.5-flash-preview',
+        generationConfig: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
+        },
+        systemInstruction: { parts: [{ text: 'Eres Amy' }] },
+        tools: [{ functionDeclarations: [{ name: 'getSalesOrder' }] }],
+        inputAudioTranscription: {},
+        sessionResumption: { handle: 'h1' }
+      }
+    });
+  });
+
+  it('sends a media blob as mediaChunks and passes activity signals through', () => {
+    const blob = { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' };
+    expect(buildBidiRealtimeInputMessage({ media: blob })).toEqual({ realtimeInput: { mediaChunks: [blob] } });
+    expect(buildBidiRealtimeInputMessage({ activityEnd: {} })).toEqual({ realtimeInput: { activityEnd: {} } });
+  });
+});
@@ -0,0 +1,289 @@
+import { GoogleGenAI } from '@google/genai';
+import type {
+  Content,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  Part
+} from '@google/genai';
+import type {
+  LiveScript,
+  LiveScriptTrigger,
+  LiveServerPayload,
+  LiveTransport,
+  LiveTransportCallbacks,
+  LiveTransportConnectParams,
+  LiveTransportSession
+} from '../types';
+import { getApiKey, getLiveMockUrl, getLiveTransportKind, LIVE_CONNECT_TIMEOUT_MS } from './audioConfig';
+import { DEMO_LIVE_SCRIPT } from './liveScripts';
+
+/**
+ * Settles a connection attempt: rejects when the socket errors or closes before
+ * opening, or does not open within LIVE_CONNECT_TIMEOUT_MS. The SDK's live.connect
+ * only resolves on open and never rejects, so without this a failed attempt would
+ * leave the caller waiting forever. Errors before open are not passed to `callbacks`.
+ */
+const connectUntilOpen = (
+  callbacks: LiveTransportCallbacks,
+  open: (guarded: LiveTransportCallbacks) => Promise<LiveTransportSession>
+): Promise<LiveTransportSession> => new Promise((resolve, reject) => {
+  let opened = false;
+  let settled = false;
+
+  const fail = (error: Error) => {
+    if (settled) return;
+    settled = true;
+    clearTimeout(timer);
+    reject(error);
+  };
+  const timer = setTimeout(
+    () => fail(new Error(`Live session did not open within ${LIVE_CONNECT_TIMEOUT_MS} ms`)),
+    LIVE_CONNECT_TIMEOUT_MS
+  );
+
+  open({
+    ...callbacks,
+    onopen: () => {
+      // Timed out already: the session is closed as soon as it resolves
+      if (settled) return;
+      opened = true;
+      clearTimeout(timer);
+      callbacks.onopen?.();
+    },
+    onerror: (error) => {
+      if (opened) {
+        callbacks.onerror?.(error);
+      } else {
+        fail(error instanceof Error ? error : new Error('Live session failed to open'));
+      }
+    },
+    onclose: (event) => {
+      if (opened) {
+        callbacks.onclose?.(event);
+      } else {
+        fail(new Error(`Live session closed before opening${event?.reason ? `: ${event.reason}` : ''}`));
+      }
+    }
+  }).then(session => {
+    if (settled) {
+      session.close();
+      return;
+    }
+    settled = true;
+    clearTimeout(timer);
+    resolve(session);
+  }, fail);
+});
+
+/**
+ * Live transport backed by the real Gemini Live API. Sessions that enable
+ * affective dialog go through alphaAi, since only v1alpha accepts it.
+ */
+export const createGeminiTransport = (ai: GoogleGenAI, alphaAi: GoogleGenAI = ai): LiveTransport => ({
+  kind: 'gemini',
+  connect: ({ model, config, callbacks }: LiveTransportConnectParams) => {
+    const client = config.enableAffectiveDialog ? alphaAi : ai;
+    return connectUntilOpen(callbacks, guarded => client.live.connect({ model, config, callbacks: guarded }));
+  }
+});
+
+/**
+ * In-memory transport that replays a recorded LiveServerMessage sequence.
+ * Steps without a trigger are replayed right after the previous one; steps
+ * with a trigger wait until the client has sent the matching event.
+ */
+export const createScriptedTransport = (script: LiveScript): LiveTransport => ({
+  kind: 'scripted',
+  connect: async ({ callbacks }) => {
+    let cursor = 0;
+    let closed = false;
+    let pumping = false;
+    const received: Record<LiveScriptTrigger, number> = {
+      clientContent: 0,
+      toolResponse: 0,
+      activityEnd: 0,
+      audioStreamEnd: 0
+    };
+
+    const close = (reason: string) => {
+      if (closed) return;
+      closed = true;
+      callbacks.onclose?.({ code: 1000, reason });
+    };
+
+    const pump = async () => {
+      if (pumping || closed) return;
+      pumping = true;
+
+      while (cursor < script.steps.length && !closed) {
+        const step = script.steps[cursor];
+        if (step.trigger) {
+          if (received[step.trigger] === 0) break;
+          received[step.trigger] -= 1;
+        }
+        cursor += 1;
+
+        if (step.delayMs) {
+          await new Promise(resolve => setTimeout(resolve, step.delayMs));
+        }
+        if (closed) break;
+
+        console.log(`[Live Transport] Replaying step ${cursor}/${script.steps.length} of "${script.name}"`);
+        callbacks.onmessage(step.message);
+      }
+
+      pumping = false;
+      if (cursor >= script.steps.length && script.closeWhenDone) {
+        close('Script finished');
+      }
+    };
+
+    const notify = (trigger: LiveScriptTrigger) => {
+      received[trigger] += 1;
+      void pump();
+    };
+
+    const session: LiveTransportSession = {
+      sendRealtimeInput: (params) => {
+        if (params.activityEnd) notify('activityEnd');
+        if (params.audioStreamEnd) notify('audioStreamEnd');
+      },
+      sendClientContent: () => notify('clientContent'),
+      sendToolResponse: () => notify('toolResponse'),
+      close: () => close('Closed by client')
+    };
+
+    console.log(`[Live Transport] Replaying script "${script.name}" (${script.steps.length} steps)`);
+    callbacks.onopen?.();
+    setTimeout(() => void pump(), 0);
+
+    return session;
+  }
+});
+
+// LiveConnectConfig fields the wire format nests under setup.generationConfig; the rest sit on setup itself
+const GENERATION_CONFIG_FIELDS = [
+  'responseModalities', 'temperature', 'topP', 'topK', 'maxOutputTokens',
+  'mediaResolution', 'seed', 'speechConfig', 'thinkingConfig', 'enableAffectiveDialog'
+] as const;
+const SETUP_FIELDS = [
+  'tools', 'sessionResumption', 'inputAudioTranscription', 'outputAudioTranscription',
+  'realtimeInputConfig', 'contextWindowCompression', 'proactivity'
+] as const;
+
+const toContent = (value: LiveConnectConfig['systemInstruction']): Content | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string') return { parts: [{ text: value }] };
+  if (Array.isArray(value)) return { parts: value.map(part => typeof part === 'string' ? { text: part } : part) };
+  return 'parts' in value || 'role' in value ? value as Content : { parts: [value as Part] };
+};
+
+/**
+ * BidiGenerateContentSetup message for `model` and an SDK LiveConnectConfig
+ */
+export const buildBidiSetupMessage = (model: string, config: LiveConnectConfig): Record<string, unknown> => {
+  const generationConfig: Record<string, unknown> = { ...config.generationConfig };
+  GENERATION_CONFIG_FIELDS.forEach(field => {
+    if (config[field] !== undefined) generationConfig[field] = config[field];
+  });
+
+  const setup: Record<string, unknown> = {
+    model: model.startsWith('models/') ? model : `models/${model}`,
+    ...(Object.keys(generationConfig).length > 0 && { generationConfig }),
+    ...(config.systemInstruction !== undefined && { systemInstruction: toContent(config.systemInstruction) })
+  };
+  SETUP_FIELDS.forEach(field => {
+    if (config[field] !== undefined) setup[field] = config[field];
+  });
+  return { setup };
+};
+
+/**
+ * BidiGenerateContentRealtimeInput message; the SDK's single `media` blob travels as `mediaChunks`
+ */
+export const buildBidiRealtimeInputMessage = (params: LiveSendRealtimeInputParameters): Record<string, unknown> => {
+  const { media, ...rest } = params;
+  return { realtimeInput: { ...rest, ...(media && { mediaChunks: [media] }) } };
+};
+
+const buildBidiClientContentMessage = (params: LiveSendClientContentParameters): Record<string, unknown> => ({
+  clientContent: {
+    ...(params.turns !== undefined && { turns: Array.isArray(params.turns) ? params.turns : [params.turns] }),
+    turnComplete: params.turnComplete ?? true
+  }
+});
+
+/**
+ * Transport for a local mock Live server speaking the BidiGenerateContent
+ * JSON wire format: the messages the SDK would put on the socket
+ * (setup with generationConfig, realtimeInput with mediaChunks, clientContent, toolResponse).
+ */
+export const createWebSocketTransport = (url: string): LiveTransport => ({
+  kind: 'websocket',
+  connect: ({ model, config, callbacks: unguarded }) => connectUntilOpen(unguarded, callbacks => new Promise((resolve, reject) => {
+    const ws = new WebSocket(url);
+    let opened = false;
+
+    const send = (message: Record<string, unknown>) => {
+      if (ws.readyState !== WebSocket.OPEN) {
+        throw new Error(`Mock Live WebSocket is not open (state ${ws.readyState})`);
+      }
+      ws.send(JSON.stringify(message));
+    };
+
+    ws.onopen = () => {
+      opened = true;
+      send(buildBidiSetupMessage(model, config));
+      callbacks.onopen?.();
+      resolve({
+        sendRealtimeInput: (params) => send(buildBidiRealtimeInputMessage(params)),
+        sendClientContent: (params) => send(buildBidiClientContentMessage(params)),
+        sendToolResponse: (params) => send({ toolResponse: params }),
+        close: () => ws.close()
+      });
+    };
+
+    ws.onmessage = async (event: MessageEvent) => {
+      try {
+        const raw = typeof event.data === 'string' ? event.data : await (event.data as Blob).text();
+        callbacks.onmessage(JSON.parse(raw) as LiveServerPayload);
+      } catch (parseError) {
+        console.error('[Live Transport] Failed to parse mock server message:', parseError);
+      }
+    };
+
+    ws.onerror = (event) => {
+      if (!opened) {
+        reject(new Error(`Failed to connect to mock Live server at ${url}`));
+        return;
+      }
+      callbacks.onerror?.(event);
+    };
+
+    ws.onclose = (event) => {
+      callbacks.onclose?.({ code: event.code, reason: event.reason });
+    };
+  }))
+});
+
+/**
+ * Creates the transport selected by VITE_LIVE_TRANSPORT
+ */
+export const createLiveTransport = (): LiveTransport => {
+  const kind = getLiveTransportKind();
+
+  if (kind === 'scripted') {
+    return createScriptedTransport(DEMO_LIVE_SCRIPT);
+  }
+
+  if (kind === 'websocket') {
+    return createWebSocketTransport(getLiveMockUrl());
+  }
+
+  const apiKey = getApiKey();
+  return createGeminiTransport(
+    new GoogleGenAI({ apiKey }),
+    new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } })
+  );
+};
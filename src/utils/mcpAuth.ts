@@ -0,0 +1,268 @@
+import type { OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import { UnauthorizedError } from '@modelcontextprotocol/sdk/client/auth.js';
+import type { StreamableHTTPClientTransportOptions } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type {
+  OAuthClientInformation,
+  OAuthClientInformationFull,
+  OAuthClientMetadata,
+  OAuthTokens
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import type { McpAuthConfig, McpServerConfig } from '../types';
+
+type OAuthAuthConfig = Extract<McpAuthConfig, { type: 'oauth' }>;
+
+const STORAGE_PREFIX = 'ai-live-sales-assistant.mcpAuth';
+// Server whose authorization redirect is in flight, so the callback knows whom the code is for
+const PENDING_SERVER_KEY = `${STORAGE_PREFIX}.pendingServer`;
+// ID token claims naming the signed-in user, most readable first
+const IDENTITY_CLAIMS = ['preferred_username', 'email', 'upn', 'user_name', 'sub'];
+
+const storageKey = (serverId: string, name: string) => `${STORAGE_PREFIX}.${serverId}.${name}`;
+
+const readStorage = <T>(storage: Storage, key: string): T | undefined => {
+  try {
+    const value = storage.getItem(key);
+    return value ? JSON.parse(value) as T : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const writeStorage = (storage: Storage, key: string, value: unknown): void => {
+  try {
+    if (value === undefined) {
+      storage.removeItem(key);
+    } else {
+      storage.setItem(key, JSON.stringify(value));
+    }
+  } catch (storageError) {
+    console.warn(`[MCP Auth] Failed to persist ${key}:`, storageError);
+  }
+};
+
+/**
+ * Validates an auth block from configuration (VITE_MCP_AUTH or a VITE_MCP_SERVERS entry)
+ */
+export const parseMcpAuthConfig = (value: unknown): McpAuthConfig | undefined => {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+
+  const auth = value as Record<string, unknown>;
+  switch (auth.type) {
+    case 'none':
+      return { type: 'none' };
+    case 'bearer':
+      if (typeof auth.token === 'string' && auth.token) {
+        return { type: 'bearer', token: auth.token };
+      }
+      break;
+    case 'headers':
+      if (typeof auth.headers === 'object' && auth.headers !== null) {
+        return { type: 'headers', headers: auth.headers as Record<string, string> };
+      }
+      break;
+    case 'oauth':
+      return {
+        type: 'oauth',
+        clientId: typeof auth.clientId === 'string' ? auth.clientId : undefined,
+        clientSecret: typeof auth.clientSecret === 'string' ? auth.clientSecret : undefined,
+        scope: typeof auth.scope === 'string' ? auth.scope : undefined,
+        redirectUrl: typeof auth.redirectUrl === 'string' ? auth.redirectUrl : undefined
+      };
+  }
+
+  console.warn('[MCP Auth] Ignoring invalid auth configuration:', { type: auth.type });
+  return undefined;
+};
+
+// Unguessable OAuth state, base64url-encoded
+const createOAuthState = (): string =>
+  btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Browser OAuth provider for the MCP SDK: tokens and the dynamically registered
+ * client live in localStorage, the PKCE verifier and the `state` in sessionStorage.
+ * The SDK refreshes expired tokens with the stored refresh token on a 401.
+ */
+export const createBrowserOAuthProvider = (server: McpServerConfig, auth: OAuthAuthConfig): OAuthClientProvider => {
+  const key = (name: string) => storageKey(server.id, name);
+  const redirectUrl = auth.redirectUrl ?? `${window.location.origin}${window.location.pathname}`;
+
+  const clientMetadata: OAuthClientMetadata = {
+    client_name: 'AI Live Sales Assistant',
+    redirect_uris: [redirectUrl],
+    grant_types: ['authorization_code', 'refresh_token'],
+    response_types: ['code'],
+    token_endpoint_auth_method: auth.clientSecret ? 'client_secret_post' : 'none',
+    ...(auth.scope && { scope: auth.scope })
+  };
+
+  return {
+    get redirectUrl() {
+      return redirectUrl;
+    },
+    get clientMetadata() {
+      return clientMetadata;
+    },
+    clientInformation: (): OAuthClientInformation | undefined => {
+      if (auth.clientId) {
+        return { client_id: auth.clientId, client_secret: auth.clientSecret };
+      }
+      return readStorage<OAuthClientInformationFull>(localStorage, key('client'));
+    },
+    saveClientInformation: (clientInformation: OAuthClientInformationFull) => {
+      writeStorage(localStorage, key('client'), clientInformation);
+    },
+    tokens: () => readStorage<OAuthTokens>(localStorage, key('tokens')),
+    saveTokens: (tokens: OAuthTokens) => {
+      writeStorage(localStorage, key('tokens'), tokens);
+    },
+    // Checked by consumeOAuthCallback so a forged redirect cannot inject an authorization code
+    state: () => {
+      const state = createOAuthState();
+      writeStorage(sessionStorage, key('state'), state);
+      return state;
+    },
+    redirectToAuthorization: (authorizationUrl: URL) => {
+      console.log(`[MCP Auth] Redirecting to sign in for ${server.label}`);
+      writeStorage(sessionStorage, PENDING_SERVER_KEY, server.id);
+      window.location.assign(authorizationUrl.toString());
+    },
+    saveCodeVerifier: (codeVerifier: string) => {
+      writeStorage(sessionStorage, key('verifier'), codeVerifier);
+    },
+    codeVerifier: () => {
+      const verifier = readStorage<string>(sessionStorage, key('verifier'));
+      if (!verifier) {
+        throw new Error(`No PKCE code verifier stored for ${server.label}`);
+      }
+      return verifier;
+    },
+    invalidateCredentials: (scope) => {
+      console.log(`[MCP Auth] Invalidating ${scope} credentials for ${server.label}`);
+      if (scope === 'all' || scope === 'tokens') writeStorage(localStorage, key('tokens'), undefined);
+      if (scope === 'all' || scope === 'client') writeStorage(localStorage, key('client'), undefined);
+      if (scope === 'all' || scope === 'verifier') {
+        writeStorage(sessionStorage, key('verifier'), undefined);
+        writeStorage(sessionStorage, key('state'), undefined);
+      }
+    }
+  };
+};
+
+/**
+ * Transport options for a server: static headers, bearer token or OAuth provider
+ */
+export const buildMcpTransportOptions = (server: McpServerConfig): StreamableHTTPClientTransportOptions | undefined => {
+  const headers: Record<string, string> = { ...server.headers };
+  let authProvider: OAuthClientProvider | undefined;
+
+  switch (server.auth?.type) {
+    case 'bearer':
+      headers.Authorization = `Bearer ${server.auth.token}`;
+      break;
+    case 'headers':
+      Object.assign(headers, server.auth.headers);
+      break;
+    case 'oauth':
+      authProvider = createBrowserOAuthProvider(server, server.auth);
+      break;
+  }
+
+  if (!authProvider && Object.keys(headers).length === 0) {
+    return undefined;
+  }
+  return {
+    ...(authProvider && { authProvider }),
+    ...(Object.keys(headers).length > 0 && { requestInit: { headers } })
+  };
+};
+
+/**
+ * Takes the authorization code from the URL after an OAuth redirect back to the app.
+ * Returns null when this page load is not an authorization callback for `serverId`,
+ * or when its `state` does not match the one sent with the authorization request.
+ */
+export const consumeOAuthCallback = (serverId: string): string | null => {
+  const pendingServerId = readStorage<string>(sessionStorage, PENDING_SERVER_KEY);
+  if (pendingServerId !== serverId) {
+    return null;
+  }
+
+  const url = new URL(window.location.href);
+  const code = url.searchParams.get('code');
+  const oauthError = url.searchParams.get('error');
+  if (!code && !oauthError) {
+    return null;
+  }
+
+  const expectedState = readStorage<string>(sessionStorage, storageKey(serverId, 'state'));
+  const returnedState = url.searchParams.get('state');
+  writeStorage(sessionStorage, PENDING_SERVER_KEY, undefined);
+  writeStorage(sessionStorage, storageKey(serverId, 'state'), undefined);
+  ['code', 'state', 'error', 'error_description', 'iss'].forEach(param => url.searchParams.delete(param));
+  window.history.replaceState(window.history.state, '', url.toString());
+
+  if (!expectedState || returnedState !== expectedState) {
+    console.error(`[MCP Auth] Ignoring the authorization callback for ${serverId}: state mismatch`);
+    return null;
+  }
+  if (oauthError) {
+    console.warn(`[MCP Auth] Authorization for ${serverId} was denied: ${oauthError}`);
+    return null;
+  }
+  return code;
+};
+
+/**
+ * Claims of a JWT, without verifying the signature; undefined for opaque tokens
+ */
+const decodeJwtClaims = (token: string): Record<string, unknown> | undefined => {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    return undefined;
+  }
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=');
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    const claims: unknown = JSON.parse(new TextDecoder().decode(bytes));
+    return typeof claims === 'object' && claims !== null ? claims as Record<string, unknown> : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * User signed in to an OAuth server, from the stored ID token (or a JWT access token).
+ * Undefined when the server does not use OAuth, nobody has signed in yet or the tokens are opaque.
+ */
+export const getMcpSignedInUser = (server: McpServerConfig): string | undefined => {
+  if (server.auth?.type !== 'oauth') {
+    return undefined;
+  }
+  const tokens = readStorage<OAuthTokens>(localStorage, storageKey(server.id, 'tokens'));
+  for (const token of [tokens?.id_token, tokens?.access_token]) {
+    const claims = token ? decodeJwtClaims(token) : undefined;
+    const user = IDENTITY_CLAIMS.map(claim => claims?.[claim]).find(value => typeof value === 'string' && value);
+    if (typeof user === 'string') {
+      return user;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Whether a connection error means the credentials were missing or rejected
+ */
+export const isMcpAuthError = (error: unknown): boolean => {
+  if (error instanceof UnauthorizedError) {
+    return true;
+  }
+  const code = (error as { code?: unknown })?.code;
+  if (code === 401 || code === 403) {
+    return true;
+  }
+  return error instanceof Error && /HTTP (401|403)\b/.test(error.message);
+};
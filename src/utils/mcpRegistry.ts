@@ -0,0 +1,117 @@
+import type { McpConnectionState, McpServerConfig, McpServerState, McpTool, McpToolListDiff } from '../types';
+import { MCP_TOOL_LIST_STORAGE_KEY } from './audioConfig';
+
+// Gemini function names: letters, digits, '_', '.', '-', at most 64 characters
+const FUNCTION_NAME_MAX_LENGTH = 64;
+
+const toFunctionName = (name: string): string =>
+  name.replace(/[^a-zA-Z0-9_.-]/g, '_').slice(0, FUNCTION_NAME_MAX_LENGTH);
+
+/**
+ * Merges the tools of every server into one list of model-facing names.
+ * Namespaced servers prefix their tools ('crm__searchAccounts'); a collision
+ * between unprefixed servers falls back to the server id as prefix.
+ */
+export const buildToolRegistry = (
+  servers: McpServerConfig[],
+  toolsByServer: Record<string, McpTool[]>
+): McpTool[] => {
+  const registry: McpTool[] = [];
+  const taken = new Set<string>();
+
+  for (const server of servers) {
+    for (const tool of toolsByServer[server.id] ?? []) {
+      let name = toFunctionName(server.namespace ? `${server.namespace}__${tool.name}` : tool.name);
+      if (taken.has(name)) {
+        const fallback = toFunctionName(`${server.id}__${tool.name}`);
+        console.warn(`[MCP] Tool name collision on "${name}", exposing ${server.label}'s tool as "${fallback}"`);
+        name = fallback;
+      }
+      if (taken.has(name)) {
+        console.warn(`[MCP] Dropping duplicate tool "${name}" from ${server.label}`);
+        continue;
+      }
+
+      taken.add(name);
+      registry.push({
+        ...tool,
+        name,
+        mcpName: name !== tool.name ? tool.name : undefined,
+        serverId: server.id
+      });
+    }
+  }
+  return registry;
+};
+
+const loadStoredToolLists = (): Record<string, McpTool[]> => {
+  try {
+    const stored = localStorage.getItem(MCP_TOOL_LIST_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    return typeof parsed === 'object' && parsed !== null ? parsed as Record<string, McpTool[]> : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Tools a server listed the last time it was reached; storage can be unavailable
+ * (private mode, disabled cookies)
+ */
+export const loadLastKnownTools = (serverId: string): McpTool[] | null => {
+  const tools = loadStoredToolLists()[serverId];
+  return Array.isArray(tools) ? tools : null;
+};
+
+export const saveLastKnownTools = (serverId: string, tools: McpTool[]): void => {
+  try {
+    localStorage.setItem(MCP_TOOL_LIST_STORAGE_KEY, JSON.stringify({ ...loadStoredToolLists(), [serverId]: tools }));
+  } catch (storageError) {
+    console.warn(`[MCP] Failed to persist the ${serverId} tool list:`, storageError);
+  }
+};
+
+const toolSignature = (tool: McpTool): string =>
+  JSON.stringify([tool.description, tool.inputSchema, tool.execution, tool.annotations, tool.mcpName, tool.serverId]);
+
+/**
+ * Compares two tool listings by name; a tool whose description, schema or
+ * hints differ counts as changed
+ */
+export const diffToolLists = (previous: McpTool[], next: McpTool[]): McpToolListDiff => {
+  const previousByName = new Map(previous.map(tool => [tool.name, tool]));
+  const nextNames = new Set(next.map(tool => tool.name));
+
+  const added: string[] = [];
+  const changed: string[] = [];
+  for (const tool of next) {
+    const before = previousByName.get(tool.name);
+    if (!before) {
+      added.push(tool.name);
+    } else if (toolSignature(before) !== toolSignature(tool)) {
+      changed.push(tool.name);
+    }
+  }
+
+  return {
+    added,
+    removed: previous.filter(tool => !nextNames.has(tool.name)).map(tool => tool.name),
+    changed
+  };
+};
+
+export const isEmptyToolListDiff = (diff: McpToolListDiff): boolean =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+
+/**
+ * Overall MCP availability from the per-server states; a server waiting for
+ * its next retry still counts as connecting
+ */
+export const getMcpConnectionState = (servers: McpServerState[]): McpConnectionState => {
+  const connected = servers.filter(server => server.status === 'connected').length;
+  if (connected > 0) {
+    return connected === servers.length ? 'ready' : 'degraded';
+  }
+  const recovering = servers.some(server => server.status === 'connecting' || server.nextRetryAt);
+  return recovering ? 'connecting' : 'offline';
+};
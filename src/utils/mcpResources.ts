@@ -0,0 +1,116 @@
+import type { Content, Part } from '@google/genai';
+import type { McpPrompt, McpPromptMessage, McpResource, McpResourceContent } from '../types';
+
+type RawItem = Record<string, unknown>;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const listOf = (response: unknown, key: string): RawItem[] => {
+  const items = (response as Record<string, unknown> | null)?.[key];
+  return Array.isArray(items) ? items.filter((item): item is RawItem => typeof item === 'object' && item !== null) : [];
+};
+
+/**
+ * Processes a resources/list response from an MCP server
+ */
+export const processMcpResourcesResponse = (response: unknown, serverId: string): McpResource[] =>
+  listOf(response, 'resources')
+    .filter(resource => typeof resource.uri === 'string' && typeof resource.name === 'string')
+    .map(resource => ({
+      uri: resource.uri as string,
+      name: resource.name as string,
+      title: optionalString(resource.title),
+      description: optionalString(resource.description),
+      mimeType: optionalString(resource.mimeType),
+      serverId
+    }));
+
+/**
+ * Processes a resources/read response
+ */
+export const processMcpResourceContents = (response: unknown): McpResourceContent[] =>
+  listOf(response, 'contents').map(content => ({
+    uri: String(content.uri ?? ''),
+    mimeType: optionalString(content.mimeType),
+    text: optionalString(content.text),
+    blob: optionalString(content.blob)
+  }));
+
+/**
+ * Processes a prompts/list response from an MCP server
+ */
+export const processMcpPromptsResponse = (response: unknown, serverId: string): McpPrompt[] =>
+  listOf(response, 'prompts')
+    .filter(prompt => typeof prompt.name === 'string')
+    .map(prompt => ({
+      name: prompt.name as string,
+      title: optionalString(prompt.title),
+      description: optionalString(prompt.description),
+      arguments: listOf(prompt, 'arguments')
+        .filter(argument => typeof argument.name === 'string')
+        .map(argument => ({
+          name: argument.name as string,
+          description: optionalString(argument.description),
+          required: argument.required === true
+        })),
+      serverId
+    }));
+
+/**
+ * Reduces a prompts/get response to text messages; embedded text resources are
+ * inlined, images and audio are dropped because a Live turn is spoken context
+ */
+export const processMcpPromptMessages = (response: unknown): McpPromptMessage[] =>
+  listOf(response, 'messages').flatMap(message => {
+    const content = (message.content ?? {}) as RawItem;
+    const resource = (content.resource ?? {}) as RawItem;
+    const text = content.type === 'text'
+      ? optionalString(content.text)
+      : content.type === 'resource' ? optionalString(resource.text) : undefined;
+
+    if (text === undefined) {
+      console.warn(`[MCP] Skipping prompt message with ${String(content.type)} content`);
+      return [];
+    }
+    return [{ role: message.role === 'assistant' ? 'assistant' : 'user', text }];
+  });
+
+/**
+ * Prompt messages as Live client turns (MCP 'assistant' is Gemini's 'model')
+ */
+export const promptMessagesToTurns = (messages: McpPromptMessage[]): Content[] =>
+  messages.map(message => ({
+    role: message.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: message.text }]
+  }));
+
+/**
+ * Parts that add a resource to the Live context: text is labelled with the
+ * resource name and truncated at `maxChars`, images go inline
+ */
+export const buildResourceContextParts = (
+  resource: McpResource,
+  contents: McpResourceContent[],
+  maxChars: number
+): Part[] => {
+  const parts: Part[] = [];
+  let remaining = maxChars;
+
+  for (const content of contents) {
+    if (content.text !== undefined) {
+      const text = content.text.slice(0, Math.max(remaining, 0));
+      const truncated = text.length < content.text.length;
+      remaining -= text.length;
+      parts.push({
+        text: `[Recurso adjunto: ${resource.title ?? resource.name} (${content.uri || resource.uri})]\n${text}${truncated ? '\n[…contenido truncado]' : ''}`
+      });
+    } else if (content.blob && content.mimeType?.startsWith('image/')) {
+      parts.push({ text: `[Recurso adjunto: ${resource.title ?? resource.name} (${content.uri || resource.uri})]` });
+      parts.push({ inlineData: { mimeType: content.mimeType, data: content.blob } });
+    } else {
+      console.warn(`[MCP] Resource content ${content.uri} (${content.mimeType ?? 'unknown type'}) cannot be attached`);
+    }
+  }
+  return parts;
+};
@@ -1,5 +1,37 @@
-import type { McpTool } from '../types';
-import { Type } from '@google/genai';
+import type {
+  McpAttachment,
+  McpContentBlock,
+  McpTool,
+  McpToolExecution,
+  McpToolResult,
+  SchemaConversionResult,
+  ToolResponseScheduling
+} from '../types';
+import { Behavior, FunctionResponseScheduling, Type } from '@google/genai';
+import { convertJsonSchemaToGemini } from './jsonSchemaConverter';
+import { validateToolOutput } from './toolArgumentValidator';
+import { MCP_RESOURCE_MAX_CHARS } from './audioConfig';
+
+const TOOL_RESPONSE_SCHEDULINGS: ToolResponseScheduling[] = ['INTERRUPT', 'WHEN_IDLE', 'SILENT'];
+
+/**
+ * Converts a tool's JSON Schema input to Gemini parameters, logging what could not be expressed
+ */
+export const convertToolInputSchema = (tool: McpTool): SchemaConversionResult => {
+  const result = convertJsonSchemaToGemini(tool.inputSchema);
+
+  // Function parameters must always be an object, even for argument-less tools
+  if (result.schema.type !== Type.OBJECT) {
+    result.dropped.push({ path: '/', keyword: 'type', reason: 'non-object input schema replaced by an empty object' });
+    result.schema = { type: Type.OBJECT, properties: {} };
+  }
+
+  if (result.dropped.length > 0) {
+    console.warn(`[MCP] Schema of ${tool.name} lost ${result.dropped.length} construct(s) in conversion:`,
+      result.dropped.map(entry => `${entry.path} ${entry.keyword}: ${entry.reason}`));
+  }
+  return result;
+};
 
 /**
  * Converts MCP tools to Gemini Live function declarations format
@@ -14,15 +46,49 @@ export const convertMcpToolsToGemini = (mcpTools: McpTool[]) => {
     functionDeclarations: mcpTools.map(tool => ({
       name: tool.name,
       description: tool.description,
-      parameters: {
-        type: Type.OBJECT,
-        properties: tool.inputSchema.properties || {},
-        required: tool.inputSchema.required || []
-      }
+      parameters: convertToolInputSchema(tool).schema,
+      ...(isNonBlockingTool(tool) && { behavior: Behavior.NON_BLOCKING })
     }))
   }];
 };
 
+/**
+ * Whether the model should keep talking while this tool runs
+ */
+export const isNonBlockingTool = (tool: McpTool): boolean => tool.execution?.behavior === 'NON_BLOCKING';
+
+/**
+ * Scheduling hint for a non-blocking tool's response; the Live API defaults to WHEN_IDLE
+ */
+export const getToolResponseScheduling = (tool: McpTool): FunctionResponseScheduling =>
+  FunctionResponseScheduling[tool.execution?.scheduling ?? 'WHEN_IDLE'];
+
+/**
+ * Reads the Live execution hints from an MCP tool's `_meta`, e.g.
+ * `{ "liveExecution": { "behavior": "NON_BLOCKING", "scheduling": "WHEN_IDLE" } }`
+ */
+export const parseToolExecution = (meta: unknown): McpToolExecution | undefined => {
+  if (typeof meta !== 'object' || meta === null) {
+    return undefined;
+  }
+  const execution: unknown = (meta as Record<string, unknown>).liveExecution;
+  if (typeof execution !== 'object' || execution === null) {
+    return undefined;
+  }
+
+  const { behavior, scheduling: requested } = execution as Record<string, unknown>;
+  if (behavior !== 'BLOCKING' && behavior !== 'NON_BLOCKING') {
+    return undefined;
+  }
+
+  const scheduling = TOOL_RESPONSE_SCHEDULINGS.find(candidate => candidate === requested);
+  if (requested !== undefined && !scheduling) {
+    console.warn(`Ignoring unknown tool response scheduling: ${String(requested)}`);
+  }
+
+  return { behavior, scheduling };
+};
+
 /**
  * Converts a single MCP tool to Gemini format
  */
@@ -30,7 +96,7 @@ export const convertSingleMcpTool = (tool: McpTool) => {
   return {
     name: tool.name,
     description: tool.description,
-    parameters: tool.inputSchema
+    parameters: convertToolInputSchema(tool).schema
   };
 };
 
@@ -60,10 +126,13 @@ export const processMcpToolsResponse = (response: any): McpTool[] => {
 
   return response.tools
     .filter(validateMcpTool)
-    .map((tool: McpTool) => ({
+    .map((tool: McpTool & { _meta?: unknown }) => ({
       name: tool.name,
       description: tool.description,
-      inputSchema: tool.inputSchema
+      inputSchema: tool.inputSchema,
+      outputSchema: tool.outputSchema,
+      execution: parseToolExecution(tool._meta),
+      annotations: tool.annotations
     }));
 };
 
@@ -83,7 +152,7 @@ export const createToolExecutionRequest = (toolName: string, args: Record<string
 /**
  * Processes tool execution response from MCP server
  */
-export const processToolExecutionResponse = (response: any) => {
+export const processToolExecutionResponse = (response: any, outputSchema?: Record<string, unknown>): McpToolResult => {
   if (!response) {
     throw new Error('Empty response from MCP server');
   }
@@ -92,18 +161,84 @@ export const processToolExecutionResponse = (response: any) => {
     throw new Error(`MCP tool execution error: ${response.error.message || 'Unknown error'}`);
   }
 
-  // Handle different response formats
-  if (response.content) {
-    return response.content;
+  if (!Array.isArray(response.content) && response.structuredContent === undefined) {
+    return { data: response.result ?? response, attachments: [] };
   }
 
-  if (response.result) {
-    return response.result;
+  const blocks: McpContentBlock[] = Array.isArray(response.content) ? response.content : [];
+  const texts = blocks.flatMap(block => block.type === 'text' ? [block.text] : []);
+
+  // Tool-level failures come back as a result with isError, not as a protocol error
+  if (response.isError) {
+    throw new Error(texts.join('\n') || 'MCP tool reported an error');
   }
 
-  return response;
+  const attachments = blocks.flatMap(contentBlockToAttachment);
+
+  if (response.structuredContent !== undefined) {
+    if (outputSchema) {
+      const issues = validateToolOutput(response.structuredContent, outputSchema);
+      if (issues.length > 0) {
+        console.warn('[MCP] structuredContent does not match the tool outputSchema:', issues);
+      }
+    }
+    return { data: response.structuredContent, attachments };
+  }
+
+  return { data: parseTextContent(texts, attachments), attachments };
+};
+
+/**
+ * Text content as data: a single JSON text is parsed (SAP results arrive as
+ * serialised OData), several texts are kept as a list
+ */
+const parseTextContent = (texts: string[], attachments: McpAttachment[]): unknown => {
+  if (texts.length === 0) {
+    return attachments.length > 0 ? `${attachments.length} adjunto(s)` : undefined;
+  }
+  const parsed = texts.map(text => {
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return text;
+    }
+  });
+  return parsed.length === 1 ? parsed[0] : parsed;
+};
+
+const contentBlockToAttachment = (block: McpContentBlock): McpAttachment[] => {
+  switch (block.type) {
+    case 'image':
+    case 'audio':
+      return [{ kind: block.type, name: block.type === 'image' ? 'Imagen' : 'Audio', mimeType: block.mimeType, data: block.data }];
+    case 'resource': {
+      const { uri, mimeType, text, blob } = block.resource;
+      const name = uri.split('/').pop() || uri;
+      if (blob && mimeType?.startsWith('image/')) {
+        return [{ kind: 'image', name, mimeType, uri, data: blob }];
+      }
+      return [{ kind: 'file', name, mimeType, uri, text, data: blob }];
+    }
+    case 'resource_link':
+      return [{ kind: 'link', name: block.title ?? block.name, mimeType: block.mimeType, uri: block.uri }];
+    default:
+      return [];
+  }
 };
 
+/**
+ * What the model is told about a result's attachments: no binary payloads,
+ * embedded text resources are included up to MCP_RESOURCE_MAX_CHARS
+ */
+export const describeAttachmentsForModel = (attachments: McpAttachment[]) =>
+  attachments.map(attachment => ({
+    type: attachment.kind,
+    name: attachment.name,
+    ...(attachment.mimeType && { mimeType: attachment.mimeType }),
+    ...(attachment.uri && { uri: attachment.uri }),
+    ...(attachment.text !== undefined && { text: attachment.text.slice(0, MCP_RESOURCE_MAX_CHARS) })
+  }));
+
 /**
  * Formats tool response for Gemini Live API (Official Google Documentation Format)
  */
@@ -119,6 +254,22 @@ export const formatToolResponseForGemini = (toolName: string, toolId: string, re
     };
   }
 
+  // Invalid arguments: a structured report lets the model fix the call and retry
+  if (response.error && Array.isArray(response.validationErrors)) {
+    return {
+      id: toolId,
+      name: toolName,
+      response: {
+        result: `Tool execution failed: ${response.message}`,
+        error: {
+          code: 'INVALID_ARGUMENTS',
+          issues: response.validationErrors,
+          hint: 'Correct the listed arguments and call the tool again. Ask the user for any value you do not know.'
+        }
+      }
+    };
+  }
+
   // ✅ FIX: Handle error responses
   if (response.error) {
     return {
@@ -140,6 +291,12 @@ export const formatToolResponseForGemini = (toolName: string, toolId: string, re
   };
 };
 
+/**
+ * Whether a response built by formatToolResponseForGemini reports a failed call
+ */
+export const isToolFailureResponse = (response: { result?: unknown } | undefined): boolean =>
+  typeof response?.result === 'string' && response.result.startsWith('Tool execution failed');
+
 /**
  * Extracts error message from MCP response
  */
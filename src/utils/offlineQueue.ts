@@ -0,0 +1,54 @@
+import type { FunctionCall, FunctionResponse, McpServerState, McpTool } from '../types';
+
+/**
+ * Whether the MCP server behind a tool can take calls right now
+ */
+export const isToolServerAvailable = (tool: McpTool, servers: McpServerState[]): boolean => {
+  const server = tool.serverId ? servers.find(candidate => candidate.id === tool.serverId) : undefined;
+  return server ? server.status === 'connected' : servers.some(candidate => candidate.status === 'connected');
+};
+
+/**
+ * Structured answer for a call whose MCP server is down, so the model can tell
+ * the user instead of guessing a result
+ */
+export const formatServiceUnavailableResponse = (
+  functionCall: FunctionCall,
+  serverLabel: string,
+  queued: boolean
+): FunctionResponse => ({
+  id: functionCall.id,
+  name: functionCall.name,
+  response: {
+    result: `Tool execution failed: ${serverLabel} is temporarily unavailable.`,
+    error: {
+      code: 'SERVICE_UNAVAILABLE',
+      retryable: true,
+      queued,
+      hint: queued
+        ? 'The call was queued and will run automatically when the service is back; you will receive the result then. Tell the user briefly and carry on without inventing data.'
+        : 'Tell the user the service is unavailable and suggest trying again later. Do not invent data.'
+    },
+    timestamp: new Date().toISOString(),
+    source: functionCall.name
+  }
+});
+
+/**
+ * Appended to the system instruction when a session opens while MCP servers are down.
+ * `serversWithoutTools` were never reached, so none of their tools are declared yet.
+ */
+export const buildDegradedModeInstruction = (unavailableServers: string[], serversWithoutTools: string[] = []): string =>
+  `\n\nAVISO DE SERVICIO: ${unavailableServers.join(', ')} no está disponible temporalmente. ` +
+  'Las herramientas que dependen de ese servicio devolverán SERVICE_UNAVAILABLE; ' +
+  'informa al usuario, no inventes datos y continúa ayudando con lo que no requiera esas herramientas.' +
+  (serversWithoutTools.length > 0
+    ? ` Las herramientas de ${serversWithoutTools.join(', ')} todavía no aparecen en tu lista: se añadirán ` +
+      'cuando el servicio vuelva. Si el usuario pide algo que dependa de ellas, dile que ese servicio aún no está disponible.'
+    : '');
+
+/**
+ * Text sent to the model with the results of queued calls that ran after the server came back
+ */
+export const buildQueuedResultsMessage = (results: FunctionResponse[]): string =>
+  `Queued tool calls ran now that the service is back. Tell the user the results briefly: ${JSON.stringify(results.map(r => ({ name: r.name, result: r.response })))}`;
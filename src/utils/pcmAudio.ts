@@ -0,0 +1,73 @@
+// The Live API's native input rate; the capture worklet resamples to it when the context runs at another rate
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+
+// Capture chunk bounds: shorter chunks flood the socket, longer ones delay turn detection
+export const DEFAULT_CAPTURE_CHUNK_MS = 40;
+export const MIN_CAPTURE_CHUNK_MS = 20;
+export const MAX_CAPTURE_CHUNK_MS = 100;
+
+// Bytes per String.fromCharCode call; stays well below engines' argument limits
+const BASE64_BLOCK_SIZE = 0x8000;
+
+type Base64Bytes = Uint8Array & { toBase64?: () => string };
+
+export const clampCaptureChunkMs = (chunkMs: number = DEFAULT_CAPTURE_CHUNK_MS): number =>
+  Math.min(MAX_CAPTURE_CHUNK_MS, Math.max(MIN_CAPTURE_CHUNK_MS, Math.round(chunkMs)));
+
+/**
+ * Base64 of raw bytes: the native Uint8Array.toBase64 where available,
+ * otherwise btoa over large blocks instead of one character at a time
+ */
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  const nativeBytes = bytes as Base64Bytes;
+  if (typeof nativeBytes.toBase64 === 'function') {
+    return nativeBytes.toBase64();
+  }
+
+  const blocks: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += BASE64_BLOCK_SIZE) {
+    blocks.push(String.fromCharCode.apply(null, bytes.subarray(offset, offset + BASE64_BLOCK_SIZE) as unknown as number[]));
+  }
+  return btoa(blocks.join(''));
+};
+
+export const concatPcm = (chunks: Int16Array[]): Int16Array => {
+  const joined = new Int16Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return joined;
+};
+
+const getAudioContextClass = (): typeof AudioContext =>
+  window.AudioContext ?? (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+
+/**
+ * Connects the microphone to a context at `preferredRate` when the browser allows it.
+ * Some browsers reject the rate, and some cannot connect a microphone to a context
+ * running at another rate than the device; the hardware rate is used then and the
+ * worklet resamples. Check `context.sampleRate` for the rate actually in use.
+ */
+export const connectCaptureSource = (
+  stream: MediaStream,
+  preferredRate: number
+): { context: AudioContext; source: MediaStreamAudioSourceNode } => {
+  const AudioContextClass = getAudioContextClass();
+
+  try {
+    const context = new AudioContextClass({ sampleRate: preferredRate });
+    try {
+      return { context, source: context.createMediaStreamSource(stream) };
+    } catch (sourceError) {
+      void context.close();
+      console.warn(`[Gemini Live] Microphone cannot run at ${preferredRate} Hz, using the device rate:`, sourceError);
+    }
+  } catch (contextError) {
+    console.warn(`[Gemini Live] AudioContext at ${preferredRate} Hz not supported, using the device rate:`, contextError);
+  }
+
+  const context = new AudioContextClass();
+  return { context, source: context.createMediaStreamSource(stream) };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createPolyphaseResampler } from './polyphaseResampler';
+import { LIVE_INPUT_SAMPLE_RATE } from './pcmAudio';
+
+// Render quantum the worklet receives per process() call
+const QUANTUM = 128;
+const AMPLITUDE = 0.5;
+
+const sine = (frequency: number, sampleRate: number, seconds = 1): Float32Array => {
+  const samples = new Float32Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = AMPLITUDE * Math.sin(2 * Math.PI * frequency * i / sampleRate);
+  }
+  return samples;
+};
+
+const resample = (input: Float32Array, inputRate: number, blockSize = QUANTUM): Float32Array => {
+  const resampler = createPolyphaseResampler(inputRate, LIVE_INPUT_SAMPLE_RATE);
+  const blocks: Float32Array[] = [];
+  for (let offset = 0; offset < input.length; offset += blockSize) {
+    blocks.push(resampler.process(input.subarray(offset, offset + blockSize)));
+  }
+
+  const output = new Float32Array(blocks.reduce((total, block) => total + block.length, 0));
+  let offset = 0;
+  blocks.forEach(block => {
+    output.set(block, offset);
+    offset += block.length;
+  });
+  return output;
+};
+
+// Gain in dB relative to the input sine, ignoring the filter's start-up and tail
+const gainDb = (output: Float32Array): number => {
+  const steady = output.subarray(200, output.length - 200);
+  const rms = Math.sqrt(steady.reduce((sum, sample) => sum + sample * sample, 0) / steady.length);
+  return 20 * Math.log10(rms / (AMPLITUDE / Math.SQRT2));
+};
+
+describe.each([24000, 44100, 48000])('createPolyphaseResampler from %i Hz', (inputRate) => {
+  it.each([300, 1000, 3000, 6000])('passes %i Hz at unity gain', (frequency) => {
+    expect(Math.abs(gainDb(resample(sine(frequency, inputRate), inputRate)))).toBeLessThan(0.1);
+  });
+
+  it('attenuates the output Nyquist (8 kHz) by more than 30 dB', () => {
+    expect(gainDb(resample(sine(8000, inputRate), inputRate))).toBeLessThan(-30);
+  });
+
+  it.each([8500, 9000, 10000, 11000, 15000, 20000].filter(frequency => frequency < inputRate / 2))(
+    'attenuates %i Hz by more than 70 dB',
+    (frequency) => {
+      expect(gainDb(resample(sine(frequency, inputRate), inputRate))).toBeLessThan(-70);
+    }
+  );
+
+  it('produces one second of output per second of input, minus the filter look-ahead', () => {
+    const output = resample(sine(1000, inputRate), inputRate);
+    expect(output.length).toBeLessThanOrEqual(LIVE_INPUT_SAMPLE_RATE);
+    expect(output.length).toBeGreaterThanOrEqual(LIVE_INPUT_SAMPLE_RATE - 18);
+  });
+
+  it('gives the same output whatever the block size', () => {
+    const input = sine(1000, inputRate);
+    const inQuanta = resample(input, inputRate);
+    const inOneBlock = resample(input, inputRate, input.length);
+    expect(inOneBlock.length).toBe(inQuanta.length);
+    expect(inOneBlock.every((sample, i) => Math.abs(sample - inQuanta[i]) < 1e-6)).toBe(true);
+  });
+});
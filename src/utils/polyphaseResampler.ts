@@ -0,0 +1,94 @@
+import type { PcmResampler } from '../types';
+
+/**
+ * Polyphase resampler with a windowed-sinc (Blackman) filter. The filter is both the
+ * anti-aliasing low-pass (cut off at 90% of the output Nyquist when downsampling) and the
+ * interpolator; intermediate phases are interpolated linearly, so any ratio works
+ * (e.g. 44100 → 16000). Runs inside the capture worklet, so it must stay dependency-free.
+ */
+export const createPolyphaseResampler = (
+  inputRate: number,
+  outputRate: number,
+  zeroCrossings = 16,
+  phaseCount = 128
+): PcmResampler => {
+  const step = inputRate / outputRate;
+
+  // Cutoff normalized to the input rate (cycles per sample)
+  const cutoff = 0.5 * Math.min(1, outputRate / inputRate) * 0.9;
+  const span = zeroCrossings / (2 * cutoff);
+  const halfTaps = Math.ceil(span);
+  const tapCount = 2 * halfTaps;
+
+  // One row per phase, plus one more to interpolate the last one
+  const table = new Float32Array((phaseCount + 1) * tapCount);
+  for (let phase = 0; phase <= phaseCount; phase++) {
+    const fraction = phase / phaseCount;
+    const row = phase * tapCount;
+    let sum = 0;
+    for (let tap = 0; tap < tapCount; tap++) {
+      const t = tap - halfTaps + 1 - fraction;
+      let coefficient = 0;
+      if (Math.abs(t) < span) {
+        const x = 2 * cutoff * t;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        const blackman = 0.42 + 0.5 * Math.cos(Math.PI * t / span) + 0.08 * Math.cos(2 * Math.PI * t / span);
+        coefficient = 2 * cutoff * sinc * blackman;
+      }
+      table[row + tap] = coefficient;
+      sum += coefficient;
+    }
+    // Unity DC gain for every phase
+    for (let tap = 0; tap < tapCount; tap++) {
+      table[row + tap] /= sum;
+    }
+  }
+
+  // Input history starts with silence so the first outputs have left context
+  let history = new Float32Array(tapCount);
+  let historyLength = halfTaps;
+  let position = halfTaps - 1;
+
+  const process = (input: Float32Array): Float32Array => {
+    const needed = historyLength + input.length;
+    if (needed > history.length) {
+      const grown = new Float32Array(Math.max(needed, history.length * 2));
+      grown.set(history.subarray(0, historyLength));
+      history = grown;
+    }
+    history.set(input, historyLength);
+    historyLength = needed;
+
+    const outputLength = Math.max(0, Math.ceil((historyLength - halfTaps - position) / step));
+    const output = new Float32Array(outputLength);
+    let produced = 0;
+
+    while (Math.floor(position) + halfTaps < historyLength && produced < outputLength) {
+      const index = Math.floor(position);
+      const phase = (position - index) * phaseCount;
+      const phaseIndex = Math.floor(phase);
+      const weight = phase - phaseIndex;
+      const rowA = phaseIndex * tapCount;
+      const rowB = rowA + tapCount;
+      const start = index - halfTaps + 1;
+
+      let sample = 0;
+      for (let tap = 0; tap < tapCount; tap++) {
+        const coefficient = table[rowA + tap] + weight * (table[rowB + tap] - table[rowA + tap]);
+        sample += history[start + tap] * coefficient;
+      }
+      output[produced++] = sample;
+      position += step;
+    }
+
+    // Drop consumed input, keeping the filter's context
+    const consumed = Math.max(0, Math.floor(position) - halfTaps + 1);
+    history.copyWithin(0, consumed, historyLength);
+    historyLength -= consumed;
+    position -= consumed;
+
+    return produced === outputLength ? output : output.subarray(0, produced);
+  };
+
+  return { process };
+};
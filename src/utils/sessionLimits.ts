@@ -0,0 +1,69 @@
+import type { ContextWindowCompressionConfig } from '@google/genai';
+import type { ContextCompressionSettings, SessionLimitLevel, SessionLimitStatus } from '../types';
+import { LIVE_SESSION_LIMITS } from './audioConfig';
+
+/**
+ * Builds the Live API sliding-window compression config (token counts are strings in the API)
+ */
+export const buildContextWindowCompression = (
+  settings: ContextCompressionSettings
+): ContextWindowCompressionConfig | undefined => {
+  if (!settings.enabled) {
+    return undefined;
+  }
+
+  return {
+    triggerTokens: String(settings.triggerTokens),
+    slidingWindow: { targetTokens: String(Math.min(settings.targetTokens, settings.triggerTokens - 1)) }
+  };
+};
+
+const levelForRatio = (ratio: number): SessionLimitLevel => {
+  if (ratio >= LIVE_SESSION_LIMITS.criticalRatio) return 'critical';
+  if (ratio >= LIVE_SESSION_LIMITS.warningRatio) return 'warning';
+  return 'ok';
+};
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Evaluates how close a session is to its limits.
+ * Without compression the session ends at the duration or context limit; with
+ * compression it never ends, but older turns are dropped once the trigger is hit.
+ */
+export const getSessionLimitStatus = (
+  elapsedMs: number,
+  contextTokens: number,
+  settings: ContextCompressionSettings
+): SessionLimitStatus => {
+  if (settings.enabled) {
+    const ratio = contextTokens / settings.triggerTokens;
+    const level = levelForRatio(ratio);
+    return {
+      level,
+      elapsedMs,
+      contextTokens,
+      message: level === 'ok'
+        ? `Session ${formatDuration(elapsedMs)}`
+        : `Context ${Math.round(ratio * 100)}%: older turns will be compressed soon`
+    };
+  }
+
+  const timeRatio = elapsedMs / LIVE_SESSION_LIMITS.uncompressedSessionMs;
+  const tokenRatio = contextTokens / LIVE_SESSION_LIMITS.contextWindowTokens;
+  const level = levelForRatio(Math.max(timeRatio, tokenRatio));
+
+  return {
+    level,
+    elapsedMs,
+    contextTokens,
+    message: timeRatio >= tokenRatio
+      ? `Session ${formatDuration(elapsedMs)} / ${formatDuration(LIVE_SESSION_LIMITS.uncompressedSessionMs)}`
+      : `Context ${Math.round(tokenRatio * 100)}% of limit`
+  };
+};
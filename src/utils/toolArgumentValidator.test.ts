@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { validateToolArguments, validateToolOutput } from './toolArgumentValidator';
+
+const schemaFor = (properties: Record<string, unknown>, extra: Record<string, unknown> = {}) =>
+  ({ type: 'object', properties, ...extra });
+
+describe('validateToolArguments', () => {
+  it.each([
+    ['25/12/2024', '2024-12-25'],
+    ['25.12.2024', '2024-12-25'],
+    ['2024/12/25', '2024-12-25'],
+    ['20241225', '2024-12-25'],
+    ['2024-12-25T10:30:00Z', '2024-12-25']
+  ])('normalises the date %s to %s', (input, expected) => {
+    const result = validateToolArguments({ date: input }, schemaFor({ date: { type: 'string', format: 'date' } }));
+    expect(result.valid).toBe(true);
+    expect(result.args.date).toBe(expected);
+  });
+
+  it('rejects a date that does not exist', () => {
+    const result = validateToolArguments({ date: '31/02/2024' }, schemaFor({ date: { type: 'string', format: 'date' } }));
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([{ path: '/date', message: '"31/02/2024" is not a valid date, expected YYYY-MM-DD' }]);
+  });
+
+  it.each([
+    ['12,5', 12.5],
+    ['-3,25', -3.25],
+    ['7', 7]
+  ])('coerces the spoken number "%s" to %d', (input, expected) => {
+    const result = validateToolArguments({ quantity: input }, schemaFor({ quantity: { type: 'number' } }));
+    expect(result.valid).toBe(true);
+    expect(result.args.quantity).toBe(expected);
+  });
+
+  it('rejects a fractional value for an integer', () => {
+    const result = validateToolArguments({ count: '2,5' }, schemaFor({ count: { type: 'integer' } }));
+    expect(result.issues).toEqual([{ path: '/count', message: 'expected integer, received 2.5' }]);
+  });
+
+  it.each([
+    ['SalesOrder', '12345', '0000012345'],
+    ['SalesOrder', 12345, '0000012345'],
+    ['SalesOrderItem', '10', '000010'],
+    ['Customer', '0000012345', '0000012345']
+  ])('pads the SAP field %s from %j to %s', (field, input, expected) => {
+    const result = validateToolArguments({ [field]: input }, schemaFor({ [field]: { type: 'string' } }));
+    expect(result.valid).toBe(true);
+    expect(result.args[field]).toBe(expected);
+  });
+
+  it('pads to the schema maxLength when it is set', () => {
+    const result = validateToolArguments(
+      { SalesOrder: '42' },
+      schemaFor({ SalesOrder: { type: 'string', maxLength: 8 } })
+    );
+    expect(result.args.SalesOrder).toBe('00000042');
+  });
+
+  it('leaves non-numeric document numbers alone', () => {
+    const result = validateToolArguments({ SalesOrder: 'AB12' }, schemaFor({ SalesOrder: { type: 'string' } }));
+    expect(result.args.SalesOrder).toBe('AB12');
+  });
+
+  it('fixes the case of an enum value and rejects values outside the enum', () => {
+    const schema = schemaFor({ status: { type: 'string', enum: ['OPEN', 'CLOSED'] } });
+    expect(validateToolArguments({ status: 'open' }, schema).args.status).toBe('OPEN');
+
+    const rejected = validateToolArguments({ status: 'pending' }, schema);
+    expect(rejected.valid).toBe(false);
+    expect(rejected.issues).toEqual([{ path: '/status', message: 'must be one of "OPEN", "CLOSED"' }]);
+  });
+
+  it('rejects unknown arguments and names the allowed ones', () => {
+    const result = validateToolArguments(
+      { SalesOrder: '12345', includeItems: true },
+      schemaFor({ SalesOrder: { type: 'string' } }, { required: ['SalesOrder'] })
+    );
+    expect(result.valid).toBe(false);
+    expect(result.args).toEqual({ SalesOrder: '0000012345' });
+    expect(result.issues).toEqual([{ path: '/includeItems', message: 'unknown argument; allowed arguments: SalesOrder' }]);
+  });
+
+  it('rejects unknown arguments in nested objects', () => {
+    const schema = schemaFor({ item: { type: 'object', properties: { material: { type: 'string' } } } });
+    const result = validateToolArguments({ item: { material: 'M-01', color: 'red' } }, schema);
+    expect(result.issues).toEqual([{ path: '/item/color', message: 'unknown argument; allowed arguments: material' }]);
+  });
+
+  it('accepts extra arguments when additionalProperties is true', () => {
+    const schema = schemaFor({ SalesOrder: { type: 'string' } }, { additionalProperties: true });
+    const result = validateToolArguments({ SalesOrder: '12345', note: 'urgent' }, schema);
+    expect(result.valid).toBe(true);
+    expect(result.args).toEqual({ SalesOrder: '0000012345', note: 'urgent' });
+  });
+
+  it('validates extra arguments against an additionalProperties schema', () => {
+    const schema = schemaFor({}, { additionalProperties: { type: 'number' } });
+    const result = validateToolArguments({ EA: '3', KG: 'many' }, schema);
+    expect(result.args.EA).toBe(3);
+    expect(result.issues).toEqual([{ path: '/KG', message: 'expected number, received string' }]);
+  });
+
+  it('accepts keys declared by any allOf member', () => {
+    const schema = {
+      allOf: [{ $ref: '#/$defs/Plant' }, { properties: { material: { type: 'string' } } }],
+      $defs: { Plant: { properties: { plant: { type: 'string' } } } }
+    };
+    expect(validateToolArguments({ plant: '1000', material: 'M-01' }, schema).valid).toBe(true);
+    expect(validateToolArguments({ plant: '1000', batch: 'B1' }, schema).issues)
+      .toEqual([{ path: '/batch', message: 'unknown argument; allowed arguments: plant, material' }]);
+  });
+});
+
+describe('validateToolOutput', () => {
+  const outputSchema = schemaFor({
+    SalesOrder: { type: 'string' },
+    netAmount: { type: 'number' },
+    status: { type: 'string', enum: ['OPEN', 'CLOSED'] }
+  });
+
+  it('accepts fields the schema does not declare', () => {
+    expect(validateToolOutput({ SalesOrder: '0000012345', netAmount: 10, currency: 'EUR' }, outputSchema)).toEqual([]);
+  });
+
+  it('reports mismatches without coercing them', () => {
+    expect(validateToolOutput({ SalesOrder: 12345, netAmount: '12,5', status: 'open' }, outputSchema)).toEqual([
+      { path: '/SalesOrder', message: 'expected string, received number' },
+      { path: '/netAmount', message: 'expected number, received string' },
+      { path: '/status', message: 'must be one of "OPEN", "CLOSED"' }
+    ]);
+  });
+
+  it('reports undeclared fields when additionalProperties is false', () => {
+    expect(validateToolOutput({ SalesOrder: '1', extra: true }, { ...outputSchema, additionalProperties: false }))
+      .toEqual([{ path: '/extra', message: 'property not declared in the schema' }]);
+  });
+});
@@ -0,0 +1,374 @@
+import type { ToolArgumentIssue, ToolArgumentValidation } from '../types';
+import { SAP_ZERO_PADDED_FIELDS } from './audioConfig';
+import { resolveSchemaRef } from './jsonSchemaConverter';
+
+type JsonSchemaNode = Record<string, unknown>;
+
+interface ValidationContext {
+  root: JsonSchemaNode;
+  issues: ToolArgumentIssue[];
+  coercions: string[];
+  // Objects validated member by member under allOf; their keys are checked against all members at once
+  allOfPaths: Set<string>;
+  // Model arguments are coerced and closed to undeclared keys; server output is only checked
+  mode: 'arguments' | 'output';
+}
+
+const isNode = (value: unknown): value is JsonSchemaNode =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Normalises the date spellings users dictate (25/12/2024, 25.12.2024,
+ * 2024/12/25, SAP's 20241225, ISO timestamps) to YYYY-MM-DD
+ */
+const normalizeDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let year: number, month: number, day: number;
+
+  let match = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/))) {
+    // Day-first, as written in Spain and most of Latin America
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const coerceString = (value: unknown, schema: JsonSchemaNode, ctx: ValidationContext, path: string): unknown => {
+  let result = value;
+  if (ctx.mode === 'arguments' && (typeof result === 'number' || typeof result === 'boolean')) {
+    result = String(result);
+    ctx.coercions.push(`${path}: ${JSON.stringify(value)} → "${result}"`);
+  }
+  if (typeof result !== 'string') {
+    ctx.issues.push({ path, message: `expected string, received ${describe(value)}` });
+    return value;
+  }
+
+  // SAP document numbers keep their leading zeros ("12345" → "0000012345")
+  const fieldName = path.split('/').pop() ?? '';
+  const padLength = typeof schema.maxLength === 'number' && fieldName in SAP_ZERO_PADDED_FIELDS
+    ? schema.maxLength
+    : SAP_ZERO_PADDED_FIELDS[fieldName];
+  if (ctx.mode === 'arguments' && padLength && /^\d+$/.test(result) && result.length < padLength) {
+    const padded = result.padStart(padLength, '0');
+    ctx.coercions.push(`${path}: "${result}" → "${padded}"`);
+    result = padded;
+  }
+
+  const text = result as string;
+  if (schema.format === 'date') {
+    const date = normalizeDate(text);
+    if (!date || (ctx.mode === 'output' && date !== text)) {
+      ctx.issues.push({ path, message: `"${text}" is not a valid date, expected YYYY-MM-DD` });
+      return text;
+    }
+    if (date !== text) ctx.coercions.push(`${path}: "${text}" → "${date}"`);
+    result = date;
+  } else if (schema.format === 'date-time') {
+    const dateOnly = normalizeDate(text);
+    const parsed = new Date(dateOnly && !/[T\s]\d/.test(text) ? `${dateOnly}T00:00:00Z` : text);
+    if (Number.isNaN(parsed.getTime())) {
+      ctx.issues.push({ path, message: `"${text}" is not a valid date-time, expected ISO 8601` });
+      return text;
+    }
+    if (ctx.mode === 'arguments') {
+      const iso = parsed.toISOString();
+      if (iso !== text) ctx.coercions.push(`${path}: "${text}" → "${iso}"`);
+      result = iso;
+    }
+  }
+
+  const final = result as string;
+  if (typeof schema.minLength === 'number' && final.length < schema.minLength) {
+    ctx.issues.push({ path, message: `must have at least ${schema.minLength} characters` });
+  }
+  if (typeof schema.maxLength === 'number' && final.length > schema.maxLength) {
+    ctx.issues.push({ path, message: `must have at most ${schema.maxLength} characters` });
+  }
+  if (typeof schema.pattern === 'string') {
+    try {
+      if (!new RegExp(schema.pattern, 'u').test(final)) {
+        ctx.issues.push({ path, message: `must match the pattern ${schema.pattern}` });
+      }
+    } catch {
+      // Patterns in a dialect JS cannot compile are left to the server
+    }
+  }
+  return final;
+};
+
+const coerceNumber = (value: unknown, integer: boolean, schema: JsonSchemaNode, ctx: ValidationContext, path: string): unknown => {
+  let result = value;
+  if (ctx.mode === 'arguments' && typeof result === 'string' && result.trim() !== '') {
+    // Accept a decimal comma ("12,5") as spoken Spanish numbers are transcribed
+    const normalized = result.trim().replace(/^(-?\d+),(\d+)$/, '$1.$2');
+    const parsed = Number(normalized);
+    if (!Number.isNaN(parsed)) {
+      ctx.coercions.push(`${path}: "${result}" → ${parsed}`);
+      result = parsed;
+    }
+  }
+  if (typeof result !== 'number' || Number.isNaN(result)) {
+    ctx.issues.push({ path, message: `expected ${integer ? 'integer' : 'number'}, received ${describe(value)}` });
+    return value;
+  }
+  if (integer && !Number.isInteger(result)) {
+    ctx.issues.push({ path, message: `expected integer, received ${result}` });
+  }
+  if (typeof schema.minimum === 'number' && result < schema.minimum) {
+    ctx.issues.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+  if (typeof schema.maximum === 'number' && result > schema.maximum) {
+    ctx.issues.push({ path, message: `must be <= ${schema.maximum}` });
+  }
+  if (typeof schema.exclusiveMinimum === 'number' && result <= schema.exclusiveMinimum) {
+    ctx.issues.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && result >= schema.exclusiveMaximum) {
+    ctx.issues.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+  }
+  return result;
+};
+
+const coerceBoolean = (value: unknown, ctx: ValidationContext, path: string): unknown => {
+  if (typeof value === 'boolean') return value;
+  if (ctx.mode === 'arguments' && (value === 'true' || value === 'false')) {
+    ctx.coercions.push(`${path}: "${value}" → ${value}`);
+    return value === 'true';
+  }
+  ctx.issues.push({ path, message: `expected boolean, received ${describe(value)}` });
+  return value;
+};
+
+const unknownArgumentMessage = (allowed: string[]): string =>
+  `unknown argument; ${allowed.length > 0 ? `allowed arguments: ${allowed.join(', ')}` : 'no arguments are accepted here'}`;
+
+/**
+ * Collects the property names an allOf schema declares across its members.
+ * Returns false when a member accepts any key (additionalProperties true or a schema).
+ */
+const collectDeclaredKeys = (input: unknown, root: JsonSchemaNode, keys: Set<string>): boolean => {
+  const schema = isNode(input) && typeof input.$ref === 'string' ? resolveSchemaRef(input.$ref, root) : input;
+  if (!isNode(schema)) return true;
+  if (schema.additionalProperties !== undefined && schema.additionalProperties !== false) return false;
+
+  Object.keys(isNode(schema.properties) ? schema.properties : {}).forEach(key => keys.add(key));
+  return (Array.isArray(schema.allOf) ? schema.allOf : []).every(member => collectDeclaredKeys(member, root, keys));
+};
+
+const validateObject = (value: unknown, schema: JsonSchemaNode, ctx: ValidationContext, path: string): unknown => {
+  if (!isNode(value)) {
+    ctx.issues.push({ path, message: `expected object, received ${describe(value)}` });
+    return value;
+  }
+
+  const properties = isNode(schema.properties) ? schema.properties : {};
+  const result: Record<string, unknown> = {};
+
+  // Arguments are closed unless the schema opts in to extra keys or declares no properties at all;
+  // server output is open unless the schema closes it
+  const closed = schema.additionalProperties === false
+    || (ctx.mode === 'arguments' && schema.additionalProperties === undefined && isNode(schema.properties));
+
+  for (const [key, propertyValue] of Object.entries(value)) {
+    if (key in properties) {
+      result[key] = validateValue(propertyValue, properties[key], ctx, `${path}/${key}`);
+    } else if (closed && !ctx.allOfPaths.has(path)) {
+      // Hallucinated field: reject the call so the model retries without it, never forward it to SAP
+      ctx.issues.push({
+        path: `${path}/${key}`,
+        message: ctx.mode === 'arguments' ? unknownArgumentMessage(Object.keys(properties)) : 'property not declared in the schema'
+      });
+    } else if (isNode(schema.additionalProperties)) {
+      result[key] = validateValue(propertyValue, schema.additionalProperties, ctx, `${path}/${key}`);
+    } else {
+      result[key] = propertyValue;
+    }
+  }
+
+  for (const name of Array.isArray(schema.required) ? schema.required : []) {
+    if (typeof name === 'string' && (result[name] === undefined || result[name] === '')) {
+      ctx.issues.push({ path: `${path}/${name}`, message: 'required argument is missing' });
+    }
+  }
+  return result;
+};
+
+const validateArray = (value: unknown, schema: JsonSchemaNode, ctx: ValidationContext, path: string): unknown => {
+  let items = value;
+  if (!Array.isArray(items) && ctx.mode === 'output') {
+    ctx.issues.push({ path, message: `expected array, received ${describe(value)}` });
+    return value;
+  }
+  if (!Array.isArray(items)) {
+    // A single value where a list is expected
+    ctx.coercions.push(`${path}: single value wrapped in a list`);
+    items = [value];
+  }
+
+  const list = (items as unknown[]).map((item, index) =>
+    schema.items !== undefined ? validateValue(item, schema.items, ctx, `${path}/${index}`) : item
+  );
+  if (typeof schema.minItems === 'number' && list.length < schema.minItems) {
+    ctx.issues.push({ path, message: `must have at least ${schema.minItems} items` });
+  }
+  if (typeof schema.maxItems === 'number' && list.length > schema.maxItems) {
+    ctx.issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+  }
+  return list;
+};
+
+const validateUnion = (value: unknown, branches: unknown[], ctx: ValidationContext, path: string): unknown => {
+  // The first branch that accepts the value wins, with its coercions
+  for (const branch of branches) {
+    const attempt: ValidationContext = { ...ctx, issues: [], coercions: [] };
+    const result = validateValue(value, branch, attempt, path);
+    if (attempt.issues.length === 0) {
+      ctx.coercions.push(...attempt.coercions);
+      return result;
+    }
+  }
+  ctx.issues.push({ path, message: 'does not match any of the allowed schemas' });
+  return value;
+};
+
+const validateValue = (value: unknown, input: unknown, ctx: ValidationContext, path: string): unknown => {
+  if (!isNode(input)) {
+    if (input === false) ctx.issues.push({ path, message: 'no value is allowed here' });
+    return value;
+  }
+
+  let schema = input;
+  if (typeof schema.$ref === 'string') {
+    const target = resolveSchemaRef(schema.$ref, ctx.root);
+    if (!target) return value;
+    schema = { ...target, ...schema, $ref: undefined };
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    const { allOf, ...rest } = schema;
+    // The outermost allOf at this path checks the keys once every member has run
+    const owner = !ctx.allOfPaths.has(path);
+    ctx.allOfPaths.add(path);
+    const result = [rest, ...allOf].reduce((current, member) => validateValue(current, member, ctx, path), value);
+    if (!owner) return result;
+
+    ctx.allOfPaths.delete(path);
+    const declared = new Set<string>();
+    if (ctx.mode === 'arguments' && isNode(result) && collectDeclaredKeys(schema, ctx.root, declared) && declared.size > 0) {
+      Object.keys(result).filter(key => !declared.has(key)).forEach(key => {
+        ctx.issues.push({ path: `${path}/${key}`, message: unknownArgumentMessage([...declared]) });
+      });
+    }
+    return result;
+  }
+  const union = Array.isArray(schema.anyOf) ? schema.anyOf : Array.isArray(schema.oneOf) ? schema.oneOf : null;
+  if (union && schema.type === undefined) {
+    return validateUnion(value, union, ctx, path);
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type !== undefined ? [schema.type] : [];
+  if (value === null && (types.includes('null') || schema.nullable === true)) {
+    return value;
+  }
+  if (types.length > 1) {
+    return validateUnion(value, types.filter(type => type !== 'null').map(type => ({ ...schema, type })), ctx, path);
+  }
+
+  let result = value;
+  switch (types[0]) {
+    case 'string':
+      result = coerceString(value, schema, ctx, path);
+      break;
+    case 'integer':
+      result = coerceNumber(value, true, schema, ctx, path);
+      break;
+    case 'number':
+      result = coerceNumber(value, false, schema, ctx, path);
+      break;
+    case 'boolean':
+      result = coerceBoolean(value, ctx, path);
+      break;
+    case 'array':
+      result = validateArray(value, schema, ctx, path);
+      break;
+    case 'object':
+      result = validateObject(value, schema, ctx, path);
+      break;
+    default:
+      if (isNode(schema.properties)) result = validateObject(value, schema, ctx, path);
+  }
+
+  const allowed = Array.isArray(schema.enum) ? schema.enum : schema.const !== undefined ? [schema.const] : null;
+  if (allowed && !allowed.includes(result)) {
+    // Case slips on code values ("open" for "OPEN") are fixed, anything else is rejected
+    const match = ctx.mode === 'arguments' && typeof result === 'string'
+      ? allowed.find(option => typeof option === 'string' && option.toLowerCase() === (result as string).toLowerCase())
+      : undefined;
+    if (match !== undefined) {
+      ctx.coercions.push(`${path}: "${result}" → "${match}"`);
+      result = match;
+    } else {
+      ctx.issues.push({ path, message: `must be one of ${allowed.map(option => JSON.stringify(option)).join(', ')}` });
+    }
+  }
+  return result;
+};
+
+/**
+ * Validates model-generated arguments against a tool's JSON Schema, coercing
+ * common slips (numeric strings, dictated dates, unpadded SAP document numbers)
+ */
+export const validateToolArguments = (args: Record<string, unknown>, inputSchema: unknown): ToolArgumentValidation => {
+  const ctx: ValidationContext = {
+    root: isNode(inputSchema) ? inputSchema : {},
+    issues: [],
+    coercions: [],
+    allOfPaths: new Set(),
+    mode: 'arguments'
+  };
+
+  const result = validateValue(args ?? {}, { type: 'object', ...ctx.root }, ctx, '');
+  return {
+    valid: ctx.issues.length === 0,
+    args: isNode(result) ? result : {},
+    issues: ctx.issues,
+    coercions: ctx.coercions
+  };
+};
+
+/**
+ * Checks a tool's structuredContent against its outputSchema as sent: nothing is
+ * coerced, and objects accept undeclared keys unless additionalProperties is false
+ */
+export const validateToolOutput = (output: unknown, outputSchema: unknown): ToolArgumentIssue[] => {
+  const ctx: ValidationContext = {
+    root: isNode(outputSchema) ? outputSchema : {},
+    issues: [],
+    coercions: [],
+    allOfPaths: new Set(),
+    mode: 'output'
+  };
+
+  validateValue(output, ctx.root, ctx, '');
+  return ctx.issues;
+};
@@ -0,0 +1,162 @@
+import type { ToolAuditEntry, ToolAuditFilter } from '../types';
+import { TOOL_AUDIT_SETTINGS } from './audioConfig';
+
+const STORE_NAME = 'toolCalls';
+const DATABASE_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CSV_COLUMNS: (keyof ToolAuditEntry)[] = [
+  'timestamp', 'user', 'toolProfileId', 'conversationId', 'toolName', 'mcpName', 'serverId',
+  'outcome', 'durationMs', 'resultBytes', 'cacheHit', 'args', 'error', 'triggerTurn'
+];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<(entry: ToolAuditEntry) => void>();
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Deletes entries past the retention period, oldest first along the timestamp index
+ */
+const pruneExpiredEntries = async (database: IDBDatabase): Promise<void> => {
+  const cutoff = new Date(Date.now() - TOOL_AUDIT_SETTINGS.retentionDays * DAY_MS).toISOString();
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  const request = transaction.objectStore(STORE_NAME).index('timestamp').openCursor(IDBKeyRange.upperBound(cutoff, true));
+  let pruned = 0;
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.delete();
+    pruned += 1;
+    cursor.continue();
+  };
+  await transactionDone(transaction);
+  if (pruned > 0) {
+    console.log(`[Tool Audit] Pruned ${pruned} entries older than ${TOOL_AUDIT_SETTINGS.retentionDays} days`);
+  }
+};
+
+const openAuditDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(TOOL_AUDIT_SETTINGS.databaseName, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async database => {
+      await pruneExpiredEntries(database);
+      return database;
+    });
+    // A failed open (private mode, quota) is retried on the next write
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+export const createToolAuditId = (): string => `audit-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Size of a tool result as the UTF-8 bytes of its JSON
+ */
+export const measureResultBytes = (result: unknown): number => {
+  if (result === undefined || result === null) {
+    return 0;
+  }
+  try {
+    return new TextEncoder().encode(typeof result === 'string' ? result : JSON.stringify(result)).length;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Stores an entry; a storage failure is logged and never breaks the tool call
+ */
+export const appendToolAuditEntry = async (entry: ToolAuditEntry): Promise<void> => {
+  if (!TOOL_AUDIT_SETTINGS.enabled) return;
+
+  try {
+    const database = await openAuditDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).add(entry);
+    await transactionDone(transaction);
+    listeners.forEach(listener => listener(entry));
+  } catch (storageError) {
+    console.warn(`[Tool Audit] Failed to record ${entry.toolName}:`, storageError, entry);
+  }
+};
+
+/**
+ * All stored entries, newest first
+ */
+export const listToolAuditEntries = async (): Promise<ToolAuditEntry[]> => {
+  const database = await openAuditDatabase();
+  const entries = await requestResult(
+    database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('timestamp').getAll()
+  ) as ToolAuditEntry[];
+  return entries.reverse();
+};
+
+/**
+ * Calls `listener` with every entry recorded from now on; returns the unsubscribe function
+ */
+export const subscribeToolAudit = (listener: (entry: ToolAuditEntry) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const filterToolAuditEntries = (entries: ToolAuditEntry[], filter: ToolAuditFilter): ToolAuditEntry[] => {
+  const text = filter.text?.trim().toLowerCase();
+  const from = filter.from?.toISOString();
+  const to = filter.to?.toISOString();
+
+  return entries.filter(entry =>
+    (!filter.toolName || entry.toolName === filter.toolName)
+    && (!filter.outcome || entry.outcome === filter.outcome)
+    && (!from || entry.timestamp >= from)
+    && (!to || entry.timestamp <= to)
+    && (!text || [entry.user, JSON.stringify(entry.args), entry.error, entry.triggerTurn]
+      .some(field => field?.toLowerCase().includes(text)))
+  );
+};
+
+export const toolAuditEntriesToJsonl = (entries: ToolAuditEntry[]): string =>
+  entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length > 0 ? '\n' : '');
+
+/**
+ * One CSV cell. Text that a spreadsheet would run as a formula (leading =, +, -, @, tab or CR)
+ * is prefixed with ' so an argument or transcript cannot inject one into the export.
+ */
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const raw = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV with one row per entry; arguments are a JSON cell
+ */
+export const toolAuditEntriesToCsv = (entries: ToolAuditEntry[]): string =>
+  [CSV_COLUMNS.join(','), ...entries.map(entry => CSV_COLUMNS.map(column => csvCell(entry[column])).join(','))]
+    .join('\r\n') + '\r\n';
@@ -0,0 +1,24 @@
+/**
+ * Runs `worker` over `items` with at most `limit` executions in flight.
+ * Results keep the order of `items`.
+ */
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const laneCount = Math.max(1, Math.min(limit, items.length));
+  const lanes = Array.from({ length: laneCount }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(lanes);
+  return results;
+};
+
@@ -0,0 +1,91 @@
+import type { A2UIMessage, McpTool, PendingToolConfirmation, ToolConfirmationPolicy, ToolConfirmationSettings } from '../types';
+
+// A2UI action names used by the confirmation card buttons
+export const APPROVE_TOOL_ACTION = 'approveToolCall';
+export const REJECT_TOOL_ACTION = 'rejectToolCall';
+
+// Letter lookarounds instead of \b, which treats accented letters as word boundaries.
+// Only an explicit phrase approves: a lone "si" is also the Spanish "if" ("si no hay stock…").
+const APPROVAL_PATTERN = /(?<!\p{L})(confirmo|apruebo|i confirm|i approve)(?!\p{L})/iu;
+const REJECTION_PATTERN = /(?<!\p{L})(no|cancela|cancelar|rechazo|rechaza|detente|stop|reject)(?!\p{L})/iu;
+// A condition or correction ("sí, pero cambia la cantidad") asks for a different call than the one proposed
+const QUALIFIER_PATTERN = /(?<!\p{L})(pero|aunque|excepto|salvo|cambia|espera|but|wait|change)(?!\p{L})/iu;
+
+/**
+ * Decides whether a tool call must be approved by the user before it runs.
+ * Local overrides win, then the server's MCP annotations, then the tool name.
+ */
+export const getToolConfirmationPolicy = (
+  toolName: string,
+  tool: McpTool | undefined,
+  settings: ToolConfirmationSettings
+): ToolConfirmationPolicy => {
+  const override = settings.overrides[toolName];
+  if (override) {
+    return override;
+  }
+
+  const annotations = tool?.annotations;
+  if (annotations?.readOnlyHint === true) {
+    return 'auto';
+  }
+  if (annotations?.destructiveHint === true) {
+    return 'confirm';
+  }
+
+  return settings.destructiveNamePattern.test(toolName) ? 'confirm' : 'auto';
+};
+
+/**
+ * Reads a spoken yes/no answer from the user's transcript; null while undecided.
+ * A rejection or a qualifier wins over an approval ("no, no confirmo", "confirmo, pero…").
+ */
+export const parseVoiceConfirmation = (transcript: string): boolean | null => {
+  if (REJECTION_PATTERN.test(transcript) || QUALIFIER_PATTERN.test(transcript)) {
+    return false;
+  }
+  if (APPROVAL_PATTERN.test(transcript)) {
+    return true;
+  }
+  return null;
+};
+
+export const getConfirmationSurfaceId = (confirmationId: string): string => `tool-confirmation-${confirmationId}`;
+
+/**
+ * A2UI card asking the user to approve or reject a pending tool call
+ */
+export const buildToolConfirmationSurface = (confirmation: PendingToolConfirmation): A2UIMessage[] => {
+  const surfaceId = getConfirmationSurfaceId(confirmation.id);
+  const context = [{ key: 'confirmationId', value: { literalString: confirmation.id } }];
+  const argumentRows = Object.entries(confirmation.args).map(([key, value], index) => ({
+    id: `arg-${index}`,
+    component: { Text: { text: { literalString: `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}` } } }
+  }));
+
+  return [
+    {
+      surfaceUpdate: {
+        surfaceId,
+        components: [
+          { id: 'root', component: { Card: { child: 'content' } } },
+          {
+            id: 'content',
+            component: { Column: { children: { explicitList: ['title', ...argumentRows.map(row => row.id), 'actions'] } } }
+          },
+          {
+            id: 'title',
+            component: { Text: { text: { literalString: `⚠️ Confirmar ${confirmation.toolName}` }, usageHint: 'h3' } }
+          },
+          ...argumentRows,
+          { id: 'actions', component: { Row: { children: { explicitList: ['approve', 'reject'] } } } },
+          { id: 'approve', component: { Button: { child: 'approve-label', primary: true, action: { name: APPROVE_TOOL_ACTION, context } } } },
+          { id: 'approve-label', component: { Text: { text: { literalString: 'Aprobar' } } } },
+          { id: 'reject', component: { Button: { child: 'reject-label', action: { name: REJECT_TOOL_ACTION, context } } } },
+          { id: 'reject-label', component: { Text: { text: { literalString: 'Rechazar' } } } }
+        ]
+      }
+    },
+    { beginRendering: { surfaceId, root: 'root' } }
+  ];
+};
@@ -0,0 +1,68 @@
+import type { McpTool, ToolConfirmationSettings, ToolProfile } from '../types';
+import { TOOL_PROFILE_STORAGE_KEY } from './audioConfig';
+import { getToolConfirmationPolicy } from './toolPolicy';
+
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Matches a tool name against a '*' wildcard pattern (case-insensitive)
+ */
+export const matchesToolPattern = (toolName: string, pattern: string): boolean => {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    regex = new RegExp(`^${source}$`, 'i');
+    patternCache.set(pattern, regex);
+  }
+  return regex.test(toolName);
+};
+
+/**
+ * Filters, renames and re-describes MCP tools for a profile.
+ * Patterns and rules match the server-side name, not the namespaced registry name.
+ * Renamed tools keep their server-side name in `mcpName` so calls can be routed back.
+ */
+export const applyToolProfile = (
+  tools: McpTool[],
+  profile: ToolProfile,
+  confirmation: ToolConfirmationSettings
+): McpTool[] => {
+  const serverName = (tool: McpTool) => tool.mcpName ?? tool.name;
+
+  return tools
+    .filter(tool => !profile.allow || profile.allow.some(pattern => matchesToolPattern(serverName(tool), pattern)))
+    .filter(tool => !profile.deny?.some(pattern => matchesToolPattern(serverName(tool), pattern)))
+    .filter(tool => !profile.readOnly || getToolConfirmationPolicy(serverName(tool), tool, confirmation) === 'auto')
+    .map(tool => {
+      const rule = profile.tools?.[serverName(tool)];
+      if (!rule) return tool;
+      return {
+        ...tool,
+        name: rule.name ?? tool.name,
+        description: rule.description ?? tool.description,
+        mcpName: rule.name && rule.name !== tool.name ? tool.mcpName ?? tool.name : tool.mcpName
+      };
+    });
+};
+
+export const findToolProfile = (profiles: ToolProfile[], profileId: string | null): ToolProfile =>
+  profiles.find(profile => profile.id === profileId) ?? profiles[0];
+
+/**
+ * Last selected profile id; storage can be unavailable (private mode, disabled cookies)
+ */
+export const loadToolProfileId = (): string | null => {
+  try {
+    return localStorage.getItem(TOOL_PROFILE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveToolProfileId = (profileId: string): void => {
+  try {
+    localStorage.setItem(TOOL_PROFILE_STORAGE_KEY, profileId);
+  } catch (storageError) {
+    console.warn('[Tool Profiles] Failed to persist the selected profile:', storageError);
+  }
+};
@@ -0,0 +1,63 @@
+import type { McpTool, ToolConfirmationSettings, ToolResultCacheSettings } from '../types';
+import { getToolConfirmationPolicy } from './toolPolicy';
+import { matchesToolPattern } from './toolProfiles';
+
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+};
+
+/**
+ * Arguments as JSON with sorted keys, so the same lookup asked in a different order matches
+ */
+export const canonicalizeToolArgs = (args: unknown): string => JSON.stringify(sortKeys(args ?? {}));
+
+export const buildToolCacheKey = (serverId: string, toolName: string, args: unknown): string =>
+  `${serverId}:${toolName}:${canonicalizeToolArgs(args)}`;
+
+/**
+ * How long a tool's results may be reused, in ms; 0 when the tool must always hit the server.
+ * `toolName` is the server-side name, so profile renames share one TTL.
+ */
+export const getToolCacheTtl = (
+  toolName: string,
+  tool: McpTool | undefined,
+  settings: ToolResultCacheSettings,
+  confirmation: ToolConfirmationSettings
+): number => {
+  if (!settings.enabled || getToolConfirmationPolicy(toolName, tool, confirmation) !== 'auto') {
+    return 0;
+  }
+
+  const override = Object.entries(settings.ttlOverrides).find(([pattern]) => matchesToolPattern(toolName, pattern));
+  return override ? override[1] : settings.defaultTtlMs;
+};
+
+/**
+ * Waits for a call shared with another caller; rejects with this caller's abort reason
+ * without cancelling the shared call
+ */
+export const awaitWithSignal = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
@@ -0,0 +1,26 @@
+import type { ChatMessage, TranscriptArchiveSettings } from '../types';
+
+/**
+ * Returns the oldest messages to page out of the live list, or an empty array
+ * while the list is under the limit. Archiving in batches avoids re-rendering
+ * the whole chat on every new message once the limit is reached.
+ */
+export const selectMessagesToArchive = (
+  messages: ChatMessage[],
+  settings: TranscriptArchiveSettings
+): ChatMessage[] => {
+  if (messages.length <= settings.maxLiveMessages) {
+    return [];
+  }
+  return messages.slice(0, messages.length - settings.keepLiveMessages);
+};
+
+/**
+ * Returns the most recent `count` archived messages, oldest first
+ */
+export const getArchivedPage = (archived: ChatMessage[], count: number): ChatMessage[] => {
+  if (count <= 0) {
+    return [];
+  }
+  return archived.slice(Math.max(0, archived.length - count));
+};
@@ -0,0 +1,60 @@
+import type { ClientVadSettings, PcmFrameFeatures, VoiceActivityState } from '../types';
+
+export const INITIAL_VOICE_ACTIVITY: VoiceActivityState = { speaking: false, runMs: 0 };
+
+/**
+ * Level and zero-crossing rate of one Int16 PCM frame
+ */
+export const analyzePcmFrame = (samples: Int16Array): PcmFrameFeatures => {
+  if (samples.length === 0) {
+    return { levelDb: -Infinity, zeroCrossingRate: 0 };
+  }
+
+  let sumSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i] / 32768;
+    sumSquares += sample * sample;
+    if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) {
+      crossings += 1;
+    }
+  }
+
+  const rms = Math.sqrt(sumSquares / samples.length);
+  return {
+    levelDb: rms > 0 ? 20 * Math.log10(rms) : -Infinity,
+    zeroCrossingRate: crossings / samples.length
+  };
+};
+
+/**
+ * Voice is loud enough and has the low zero-crossing rate of voiced sound;
+ * fans and keyboard clicks are either quiet or cross zero far more often
+ */
+export const isSpeechFrame = (features: PcmFrameFeatures, settings: ClientVadSettings): boolean =>
+  features.levelDb >= settings.energyThresholdDb && features.zeroCrossingRate <= settings.maxZeroCrossingRate;
+
+/**
+ * Advances the detector by one frame. Returns 'start' when `attackMs` of speech
+ * opens an activity and 'end' when `hangoverMs` of silence closes it.
+ */
+export const updateVoiceActivity = (
+  state: VoiceActivityState,
+  speech: boolean,
+  frameMs: number,
+  settings: ClientVadSettings
+): { state: VoiceActivityState; event: 'start' | 'end' | null } => {
+  // A frame that agrees with the current state resets the opposite run
+  if (speech === state.speaking) {
+    return { state: { speaking: state.speaking, runMs: 0 }, event: null };
+  }
+
+  const runMs = state.runMs + frameMs;
+  if (!state.speaking && runMs >= settings.attackMs) {
+    return { state: { speaking: true, runMs: 0 }, event: 'start' };
+  }
+  if (state.speaking && runMs >= settings.hangoverMs) {
+    return { state: { speaking: false, runMs: 0 }, event: 'end' };
+  }
+  return { state: { speaking: state.speaking, runMs }, event: null };
+};
@@ -0,0 +1,231 @@
+import type { WakeWordModel, WakeWordSettings } from '../types';
+import { WAKE_WORD_STORAGE_KEY } from './audioConfig';
+import { LIVE_INPUT_SAMPLE_RATE } from './pcmAudio';
+import { analyzePcmFrame } from './voiceActivity';
+
+// 25 ms analysis frames every 10 ms at the 16 kHz capture rate
+const FRAME_SIZE = 400;
+const FRAME_HOP = 160;
+const FFT_SIZE = 512;
+const MEL_BANDS = 26;
+const MIN_MEL_HZ = 20;
+// c1..c12; c0 (overall loudness) is dropped so speaking louder or softer does not change the distance
+const CEPSTRAL_COEFFICIENTS = 12;
+const PRE_EMPHASIS = 0.97;
+
+interface AnalysisTables {
+  window: Float64Array;
+  filters: Array<{ start: number; weights: Float64Array }>;
+  dct: Float64Array[];
+}
+
+let analysisTables: AnalysisTables | null = null;
+
+const hzToMel = (hz: number): number => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number): number => 700 * (10 ** (mel / 2595) - 1);
+
+const getAnalysisTables = (): AnalysisTables => {
+  if (analysisTables) return analysisTables;
+
+  const window = new Float64Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    window[i] = 0.54 - 0.46 * Math.cos(2 * Math.PI * i / (FRAME_SIZE - 1));
+  }
+
+  // Triangular filters evenly spaced on the mel scale up to Nyquist
+  const minMel = hzToMel(MIN_MEL_HZ);
+  const maxMel = hzToMel(LIVE_INPUT_SAMPLE_RATE / 2);
+  const bins = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+    Math.floor((FFT_SIZE + 1) * melToHz(minMel + (maxMel - minMel) * i / (MEL_BANDS + 1)) / LIVE_INPUT_SAMPLE_RATE));
+  const filters = Array.from({ length: MEL_BANDS }, (_, band) => {
+    const [left, center, right] = [bins[band], bins[band + 1], bins[band + 2]];
+    const weights = new Float64Array(right - left + 1);
+    for (let bin = left; bin <= right; bin++) {
+      weights[bin - left] = bin <= center
+        ? (center === left ? 1 : (bin - left) / (center - left))
+        : (right - bin) / (right - center);
+    }
+    return { start: left, weights };
+  });
+
+  const dct = Array.from({ length: CEPSTRAL_COEFFICIENTS }, (_, index) => {
+    const row = new Float64Array(MEL_BANDS);
+    for (let band = 0; band < MEL_BANDS; band++) {
+      row[band] = Math.cos(Math.PI * (index + 1) * (band + 0.5) / MEL_BANDS);
+    }
+    return row;
+  });
+
+  analysisTables = { window, filters, dct };
+  return analysisTables;
+};
+
+/**
+ * In-place radix-2 FFT; the length must be a power of two
+ */
+const fft = (re: Float64Array, im: Float64Array): void => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size / 2;
+    const angle = -2 * Math.PI / size;
+    for (let k = 0; k < half; k++) {
+      const cos = Math.cos(angle * k);
+      const sin = Math.sin(angle * k);
+      for (let start = 0; start < n; start += size) {
+        const a = start + k;
+        const b = a + half;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+};
+
+/**
+ * Drops leading and trailing 10 ms blocks quieter than `thresholdDb`
+ */
+export const trimSilence = (samples: Int16Array, thresholdDb: number): Int16Array => {
+  let first = -1;
+  let last = -1;
+  for (let start = 0; start < samples.length; start += FRAME_HOP) {
+    if (analyzePcmFrame(samples.subarray(start, start + FRAME_HOP)).levelDb >= thresholdDb) {
+      if (first < 0) first = start;
+      last = Math.min(samples.length, start + FRAME_HOP);
+    }
+  }
+  return first < 0 ? samples.subarray(0, 0) : samples.subarray(first, last);
+};
+
+/**
+ * MFCC frames (12 coefficients every 10 ms) of 16 kHz Int16 PCM
+ */
+export const computeMfcc = (samples: Int16Array): number[][] => {
+  const { window, filters, dct } = getAnalysisTables();
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  const power = new Float64Array(FFT_SIZE / 2 + 1);
+  const logMel = new Float64Array(MEL_BANDS);
+  const frames: number[][] = [];
+
+  for (let offset = 0; offset + FRAME_SIZE <= samples.length; offset += FRAME_HOP) {
+    re.fill(0);
+    im.fill(0);
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const previous = offset + i > 0 ? samples[offset + i - 1] : 0;
+      re[i] = (samples[offset + i] - PRE_EMPHASIS * previous) / 32768 * window[i];
+    }
+    fft(re, im);
+
+    for (let bin = 0; bin < power.length; bin++) {
+      power[bin] = re[bin] * re[bin] + im[bin] * im[bin];
+    }
+    filters.forEach(({ start, weights }, band) => {
+      let energy = 0;
+      for (let i = 0; i < weights.length; i++) {
+        energy += weights[i] * (power[start + i] ?? 0);
+      }
+      logMel[band] = Math.log(energy + 1e-10);
+    });
+
+    frames.push(dct.map(row => row.reduce((sum, weight, band) => sum + weight * logMel[band], 0)));
+  }
+
+  return frames;
+};
+
+const frameDistance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - b[i]) ** 2;
+  }
+  return Math.sqrt(sum);
+};
+
+/**
+ * Dynamic time warping cost of `template` against its best-matching stretch of `query`
+ * (free start and end in the query), averaged per template frame
+ */
+export const subsequenceDtw = (template: number[][], query: number[][]): number => {
+  if (template.length === 0 || query.length === 0) return Infinity;
+
+  let previous = new Float64Array(query.length);
+  let current = new Float64Array(query.length);
+  for (let j = 0; j < query.length; j++) {
+    previous[j] = frameDistance(template[0], query[j]);
+  }
+
+  for (let i = 1; i < template.length; i++) {
+    current[0] = previous[0] + frameDistance(template[i], query[0]);
+    for (let j = 1; j < query.length; j++) {
+      current[j] = frameDistance(template[i], query[j]) + Math.min(previous[j], previous[j - 1], current[j - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return Math.min(...previous) / template.length;
+};
+
+/**
+ * Spotter from the recorded samples. The threshold scales the largest distance between
+ * two samples, so it adapts to the user's voice and microphone without manual tuning.
+ */
+export const buildWakeWordModel = (templates: number[][][], settings: WakeWordSettings): WakeWordModel => {
+  let spread = 0;
+  templates.forEach((template, i) => templates.forEach((other, j) => {
+    if (i !== j) spread = Math.max(spread, subsequenceDtw(template, other));
+  }));
+  return { phrase: settings.phrase, threshold: spread * settings.thresholdScale, templates };
+};
+
+export const matchesWakeWord = (model: WakeWordModel, features: number[][]): boolean =>
+  model.templates.some(template => subsequenceDtw(template, features) <= model.threshold);
+
+/**
+ * Recorded samples for `phrase`; storage can be unavailable (private mode, disabled cookies)
+ */
+export const loadWakeWordModel = (phrase: string): WakeWordModel | null => {
+  try {
+    const stored = localStorage.getItem(WAKE_WORD_STORAGE_KEY);
+    if (!stored) return null;
+    const model = JSON.parse(stored) as WakeWordModel;
+    return model.phrase === phrase && Array.isArray(model.templates) && typeof model.threshold === 'number'
+      ? model
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveWakeWordModel = (model: WakeWordModel | null): void => {
+  try {
+    if (model) {
+      localStorage.setItem(WAKE_WORD_STORAGE_KEY, JSON.stringify(model));
+    } else {
+      localStorage.removeItem(WAKE_WORD_STORAGE_KEY);
+    }
+  } catch (storageError) {
+    console.warn('[Wake Word] Failed to persist the recorded samples:', storageError);
+  }
+};
+
+/**
+ * Appended to the system instruction: the client already filters on the wake word,
+ * so follow-up questions inside the listening window arrive without it
+ */
+export const buildWakeWordInstruction = (phrase: string): string =>
+  `\n\nACTIVACIÓN: la aplicación solo te envía audio después de que el usuario diga "${phrase}" ` +
+  'y mientras la conversación continúa. Responde a todo el audio que recibas, aunque no incluya esa palabra.';
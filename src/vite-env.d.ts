@@ -3,6 +3,10 @@
 interface ImportMetaEnv {
   readonly VITE_GEMINI_API_KEY: string
   readonly VITE_MCP_SERVER_URL: string
+  readonly VITE_MCP_SERVERS?: string
+  readonly VITE_MCP_AUTH?: string
+  readonly VITE_LIVE_TRANSPORT?: 'gemini' | 'scripted' | 'websocket'
+  readonly VITE_LIVE_MOCK_URL?: string
 }
 
 interface ImportMeta {
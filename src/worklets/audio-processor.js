@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * AudioWorkletProcessor para capturar y procesar audio del micrófono
+ * Reemplaza el ScriptProcessorNode deprecado y MediaRecorder
+ * Proporciona procesamiento de audio en tiempo real para Gemini Live API
+ *
+ * Acumula bloques de `chunkMs` milisegundos, los convierte a PCM Int16 aquí
+ * mismo y transfiere el ArrayBuffer al hilo principal, en lugar de enviar
+ * cada quantum de 128 muestras.
+ *
+ * Si el contexto no corre a `targetSampleRate` (el navegador ignoró la
+ * frecuencia pedida), las muestras se remuestrean antes de convertirlas
+ * (src/utils/polyphaseResampler.ts).
+ *
+ * Vite lo empaqueta como worker (`?worker&url`) para poder importar el
+ * remuestreador; por eso vive en src/ y no en public/.
+ */
+import { createPolyphaseResampler } from '../utils/polyphaseResampler';
+
+const DEFAULT_CHUNK_MS = 40;
+const MIN_CHUNK_MS = 20;
+const MAX_CHUNK_MS = 100;
+const DEFAULT_TARGET_SAMPLE_RATE = 16000;
+
+class AudioCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+
+    // Frecuencia de los bloques enviados; `sampleRate` (global) es la real del contexto
+    this.targetSampleRate = options?.processorOptions?.targetSampleRate ?? DEFAULT_TARGET_SAMPLE_RATE;
+    this.resampler = sampleRate === this.targetSampleRate
+      ? null
+      : createPolyphaseResampler(sampleRate, this.targetSampleRate);
+    this.configureChunk(options?.processorOptions?.chunkMs ?? DEFAULT_CHUNK_MS);
+
+    // Configurar el puerto de mensajes para comunicación con el hilo principal
+    this.port.onmessage = (event) => {
+      if (event.data.type === 'configure') {
+        this.flush();
+        this.configureChunk(event.data.chunkMs ?? DEFAULT_CHUNK_MS);
+        console.log(`[AudioWorklet] Processor configured: ${this.chunkSamples} samples per chunk`);
+      } else if (event.data.type === 'flush') {
+        // Confirmar aunque no hubiera muestras pendientes: el hilo principal espera
+        // esta respuesta para cerrar la actividad de voz (push-to-talk)
+        this.flush();
+        this.port.postMessage({ type: 'flushed' });
+      }
+    };
+
+    console.log(`[AudioWorklet] AudioCaptureProcessor initialized (${sampleRate} Hz → ${this.targetSampleRate} Hz, ${this.chunkSamples} samples per chunk)`);
+  }
+
+  /**
+   * Tamaño del bloque en muestras a la frecuencia de salida
+   * @param {number} chunkMs - Duración del bloque en milisegundos
+   */
+  configureChunk(chunkMs) {
+    const clampedMs = Math.min(MAX_CHUNK_MS, Math.max(MIN_CHUNK_MS, chunkMs));
+    this.chunkSamples = Math.round(this.targetSampleRate * clampedMs / 1000);
+    this.buffer = new Int16Array(this.chunkSamples);
+    this.offset = 0;
+  }
+
+  /**
+   * Envía las muestras acumuladas; el buffer se transfiere, así que se crea uno nuevo
+   */
+  flush() {
+    if (this.offset === 0) return;
+
+    const pcm = this.offset === this.buffer.length ? this.buffer : this.buffer.slice(0, this.offset);
+    this.port.postMessage({ type: 'audioData', pcm: pcm.buffer }, [pcm.buffer]);
+    this.buffer = new Int16Array(this.chunkSamples);
+    this.offset = 0;
+  }
+
+  /**
+   * Procesa los datos de audio en tiempo real
+   * @param {Float32Array[][]} inputs - Arrays de datos de audio de entrada
+   * @param {Float32Array[][]} outputs - Arrays de datos de audio de salida
+   * @param {Object} parameters - Parámetros de audio
+   * @returns {boolean} - true para mantener el procesador activo
+   */
+  process(inputs, outputs, parameters) {
+    // Primer canal (mono) de la primera entrada
+    const channelData = inputs[0]?.[0];
+
+    if (channelData && channelData.length > 0) {
+      const inputData = this.resampler ? this.resampler.process(channelData) : channelData;
+      for (let i = 0; i < inputData.length; i++) {
+        // Recortar a [-1, 1] y escalar a Int16 sin desbordar en +1.0
+        const sample = Math.max(-1, Math.min(1, inputData[i]));
+        this.buffer[this.offset++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+
+        if (this.offset === this.buffer.length) {
+          this.flush();
+        }
+      }
+    }
+
+    // Retornar true para mantener el procesador activo
+    return true;
+  }
+}
+
+// Registrar el procesador con el nombre que usaremos en el hilo principal
+registerProcessor('audio-capture-processor', AudioCaptureProcessor);
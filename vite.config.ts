@@ -36,6 +36,13 @@ export default defineConfig(({ mode }) => {
               proxyRes.headers['access-control-allow-headers'] = 'Content-Type, Authorization, Content-Length, X-Requested-With';
             });
           }
+        },
+        // OAuth discovery for the proxied MCP endpoint (VITE_MCP_AUTH type "oauth")
+        '/.well-known/oauth-': {
+          target: mcpServerUrl,
+          changeOrigin: true,
+          rewrite: (path) => path.replace(/\/api\/mcp$/, '/mcp'),
+          secure: true
         }
       } : undefined
     },